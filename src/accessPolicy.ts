@@ -0,0 +1,543 @@
+// Database/collection access policy and field-level redaction
+import { createHmac, randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { BSON } from "mongodb";
+
+export type RedactionStrategy = "drop" | "hash" | "mask" | "null";
+
+const REDACTION_STRATEGIES: RedactionStrategy[] = ["drop", "hash", "mask", "null"];
+
+export interface RedactionRule {
+  // Namespace glob the rule applies to (default: every collection)
+  collection?: string;
+  // Dotted field paths; arrays of sub-documents are traversed transparently
+  fields: string[];
+  strategy: RedactionStrategy;
+}
+
+export interface AccessListConfig {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Policy file format. Database patterns match database names; collection
+ * patterns match "db.collection" namespaces, and a pattern without a "."
+ * matches that collection name in any database. Both support * and ? globs.
+ * Deny always wins over allow; an empty or missing allow list allows everything.
+ */
+export interface AccessPolicyConfig {
+  databases?: AccessListConfig;
+  collections?: AccessListConfig;
+  redact?: RedactionRule[];
+}
+
+export class AccessDeniedError extends Error {
+  constructor(message: string, public readonly target: string) {
+    super(message);
+    this.name = "AccessDeniedError";
+  }
+}
+
+/**
+ * Load the access policy from the JSON file named by MONGODB_ACCESS_POLICY_FILE.
+ * Without a file every database and collection is readable and nothing is redacted.
+ * The "hash" strategy keys its HMAC with MONGODB_REDACTION_HASH_KEY; without one a
+ * random key is used, so hashes only stay comparable until the server restarts.
+ */
+export function accessPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): AccessPolicy {
+  const file = env.MONGODB_ACCESS_POLICY_FILE;
+  const hashKey = env.MONGODB_REDACTION_HASH_KEY || undefined;
+  if (!file) return new AccessPolicy({}, hashKey);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read access policy ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return new AccessPolicy(validateAccessPolicyConfig(raw, file), hashKey);
+}
+
+function validateAccessPolicyConfig(raw: unknown, source: string): AccessPolicyConfig {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Access policy ${source} must be a JSON object`);
+  }
+  const config = raw as AccessPolicyConfig;
+
+  for (const key of ["databases", "collections"] as const) {
+    const list = config[key];
+    if (list === undefined) continue;
+    for (const mode of ["allow", "deny"] as const) {
+      const patterns = list[mode];
+      if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some((p) => typeof p !== "string"))) {
+        throw new Error(`Access policy ${source}: ${key}.${mode} must be an array of strings`);
+      }
+    }
+  }
+
+  if (config.redact !== undefined) {
+    if (!Array.isArray(config.redact)) {
+      throw new Error(`Access policy ${source}: redact must be an array of rules`);
+    }
+    config.redact.forEach((rule, index) => {
+      if (!Array.isArray(rule.fields) || rule.fields.some((f) => typeof f !== "string")) {
+        throw new Error(`Access policy ${source}: redact[${index}].fields must be an array of strings`);
+      }
+      if (!REDACTION_STRATEGIES.includes(rule.strategy)) {
+        throw new Error(
+          `Access policy ${source}: redact[${index}].strategy must be one of: ${REDACTION_STRATEGIES.join(", ")}`
+        );
+      }
+    });
+  }
+
+  return config;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${escaped}$`);
+}
+
+function namespacePattern(pattern: string): string {
+  return pattern.includes(".") ? pattern : `*.${pattern}`;
+}
+
+class PatternList {
+  private allow: RegExp[];
+  private deny: RegExp[];
+
+  constructor(config: AccessListConfig = {}, normalize: (pattern: string) => string = (p) => p) {
+    this.allow = (config.allow ?? []).map((p) => globToRegExp(normalize(p)));
+    this.deny = (config.deny ?? []).map((p) => globToRegExp(normalize(p)));
+  }
+
+  permits(value: string): boolean {
+    if (this.deny.some((re) => re.test(value))) return false;
+    return this.allow.length === 0 || this.allow.some((re) => re.test(value));
+  }
+}
+
+interface CompiledRule {
+  namespace: RegExp;
+  paths: string[][];
+  strategy: RedactionStrategy;
+}
+
+export class AccessPolicy {
+  private databases: PatternList;
+  private collections: PatternList;
+  private rules: CompiledRule[];
+  // Secret for the "hash" strategy: an unkeyed hash of a phone number or SSN is reversed by trying every value
+  private hashKey: string | Buffer;
+
+  constructor(config: AccessPolicyConfig, hashKey?: string) {
+    this.hashKey = hashKey ?? randomBytes(32);
+    this.databases = new PatternList(config.databases);
+    this.collections = new PatternList(config.collections, namespacePattern);
+    this.rules = (config.redact ?? []).map((rule) => ({
+      namespace: globToRegExp(namespacePattern(rule.collection ?? "*")),
+      paths: rule.fields.map((field) => field.split(".")),
+      strategy: rule.strategy,
+    }));
+  }
+
+  canReadDatabase(database: string): boolean {
+    return this.databases.permits(database);
+  }
+
+  canReadCollection(database: string, collection: string): boolean {
+    return this.canReadDatabase(database) && this.collections.permits(`${database}.${collection}`);
+  }
+
+  assertDatabase(database: string) {
+    if (!this.canReadDatabase(database)) {
+      throw new AccessDeniedError(`Access to database "${database}" is denied by policy`, database);
+    }
+  }
+
+  assertCollection(database: string, collection: string) {
+    this.assertDatabase(database);
+    if (!this.canReadCollection(database, collection)) {
+      throw new AccessDeniedError(
+        `Access to collection "${database}.${collection}" is denied by policy`,
+        `${database}.${collection}`
+      );
+    }
+  }
+
+  /**
+   * Refuse pipelines that read from a denied collection through
+   * $lookup, $graphLookup or $unionWith, including nested sub-pipelines.
+   * Redaction only sees documents under their returned field names, so joins
+   * into collections with redaction rules are refused too, as are expressions
+   * that copy a redacted field (or the whole document) somewhere else and
+   * $match stages that filter on one.
+   */
+  assertPipeline(database: string, collection: string | undefined, pipeline: unknown) {
+    for (const ref of referencedCollections(pipeline)) {
+      this.assertCollection(ref.db ?? database, ref.coll);
+    }
+    this.checkStages(database, collection, pipeline);
+  }
+
+  /**
+   * Refuse find projections whose expressions read a redacted field, such as
+   * {"x": "$ssn"}, which would return it under a name redaction does not cover.
+   */
+  assertProjection(database: string, collection: string, projection: unknown) {
+    const rules = this.rulesFor(database, collection);
+    if (rules.length === 0 || projection === null || typeof projection !== "object") return;
+    for (const [field, value] of Object.entries(projection)) {
+      if (value !== `$${field}`) assertNoRedactedPaths(value, rules, `${database}.${collection}`);
+    }
+  }
+
+  /**
+   * Refuse filters that match on a redacted field: the documents or the count a
+   * filter such as {"ssn": {"$regex": "^123"}} returns reveal the value.
+   */
+  assertFilter(database: string, collection: string, filter: unknown) {
+    assertNoRedactedFilterPaths(filter, this.rulesFor(database, collection), `${database}.${collection}`);
+  }
+
+  /**
+   * Refuse $text searches over a text index that covers a redacted field,
+   * including wildcard indexes ("$**") on collections with redaction rules.
+   */
+  assertSearchFields(database: string, collection: string, fields: string[]) {
+    const rules = this.rulesFor(database, collection);
+    const namespace = `${database}.${collection}`;
+    for (const field of fields) {
+      const path = field.replace(/(^|\.)\$\*\*$/, "");
+      if (path === "" ? rules.length > 0 : touchesRedactedPath(rules, path)) {
+        throw new AccessDeniedError(
+          `The text index of ${namespace} covers "${field}", which is redacted by policy, so it cannot be searched`,
+          `${namespace}.${field}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Refuse updates that move a redacted field: update pipelines are checked like
+   * any pipeline, and $rename may neither read nor write a redacted path, since
+   * the renamed value would be previewed and stored under a name redaction does not cover.
+   */
+  assertUpdate(database: string, collection: string, update: unknown) {
+    if (Array.isArray(update)) {
+      this.assertPipeline(database, collection, update);
+      return;
+    }
+    const rules = this.rulesFor(database, collection);
+    const renames = (update as Record<string, unknown> | null)?.$rename;
+    if (rules.length === 0 || renames === null || typeof renames !== "object") return;
+    const namespace = `${database}.${collection}`;
+    for (const [source, target] of Object.entries(renames)) {
+      for (const path of [source, target]) {
+        if (typeof path === "string" && touchesRedactedPath(rules, path)) {
+          throw new AccessDeniedError(
+            `Field "${path}" of ${namespace} is redacted by policy and cannot be renamed`,
+            `${namespace}.${path}`
+          );
+        }
+      }
+    }
+  }
+
+  redactDocuments<T>(database: string, collection: string, documents: T[]): T[] {
+    const rules = this.rulesFor(database, collection);
+    if (rules.length === 0) return documents;
+    return documents.map((doc) => this.applyRules(doc, rules));
+  }
+
+  redactDocument<T>(database: string, collection: string, document: T): T {
+    const rules = this.rulesFor(database, collection);
+    return rules.length === 0 ? document : this.applyRules(document, rules);
+  }
+
+  /**
+   * Redact the values returned by distinct on a single field path.
+   */
+  redactDistinctValues(database: string, collection: string, field: string, values: unknown[]): unknown[] {
+    const rule = this.ruleForField(database, collection, field);
+    if (!rule) return values;
+    if (rule.strategy === "drop") {
+      throw new AccessDeniedError(`Field "${field}" is redacted by policy`, `${database}.${collection}.${field}`);
+    }
+    return values.map((value) => redactValue(value, rule.strategy, this.hashKey));
+  }
+
+  /**
+   * Redact a change stream event: the full documents it carries and the dotted
+   * paths in updateDescription.updatedFields.
+   */
+  redactChangeEvent<T extends Record<string, any>>(database: string, collection: string, event: T): T {
+    const rules = this.rulesFor(database, collection);
+    if (rules.length === 0) return event;
+
+    const redacted: Record<string, any> = { ...event };
+    for (const key of ["fullDocument", "fullDocumentBeforeChange"]) {
+      if (redacted[key]) redacted[key] = this.applyRules(redacted[key], rules);
+    }
+
+    const updatedFields = event.updateDescription?.updatedFields;
+    if (updatedFields) {
+      const fields: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(updatedFields)) {
+        // Nest the value under its path, redact, then read it back out
+        const path = field.split(".");
+        let current: any = this.applyRules(
+          path.reduceRight<unknown>((child, segment) => ({ [segment]: child }), value),
+          rules
+        );
+        for (const segment of path) {
+          current = current !== null && typeof current === "object" && segment in current ? current[segment] : undefined;
+        }
+        if (current !== undefined) fields[field] = current;
+      }
+      redacted.updateDescription = { ...event.updateDescription, updatedFields: fields };
+    }
+    return redacted as T;
+  }
+
+  // Whether any part of this field's values is redacted: the field, an enclosing document or a sub-field
+  redactsField(database: string, collection: string, field: string): boolean {
+    return touchesRedactedPath(this.rulesFor(database, collection), field);
+  }
+
+  private ruleForField(database: string, collection: string, field: string): CompiledRule | undefined {
+    const path = field.split(".");
+    return this.rulesFor(database, collection).find((r) =>
+      r.paths.some((p) => p.length <= path.length && p.every((segment, i) => segment === "*" || segment === path[i]))
+    );
+  }
+
+  private checkStages(database: string, collection: string | undefined, stages: unknown) {
+    if (!Array.isArray(stages)) return;
+    const rules = collection === undefined ? [] : this.rulesFor(database, collection);
+    const namespace = `${database}.${collection}`;
+
+    for (const stage of stages) {
+      if (stage === null || typeof stage !== "object") continue;
+      for (const [name, spec] of Object.entries(stage as Record<string, unknown>)) {
+        const options = (spec !== null && typeof spec === "object" ? spec : {}) as Record<string, unknown>;
+        if (name === "$lookup" || name === "$graphLookup" || name === "$unionWith") {
+          const joined = joinedCollection(name, spec);
+          if (joined && this.rulesFor(joined.db ?? database, joined.coll).length > 0) {
+            const target = `${joined.db ?? database}.${joined.coll}`;
+            throw new AccessDeniedError(
+              `Collection "${target}" has redacted fields and cannot be joined with ${name}; query it directly`,
+              target
+            );
+          }
+          // let and startWith are evaluated against this collection, sub-pipelines against the joined one
+          assertNoRedactedPaths(name === "$graphLookup" ? options.startWith : options.let, rules, namespace);
+          this.checkStages(joined?.db ?? database, joined?.coll, options.pipeline);
+        } else if (name === "$facet") {
+          Object.values(options).forEach((pipeline) => this.checkStages(database, collection, pipeline));
+        } else if (name === "$match") {
+          assertNoRedactedFilterPaths(spec, rules, namespace);
+        } else if (rules.length > 0 && ["$project", "$addFields", "$set"].includes(name)) {
+          // {"ssn": "$ssn"} keeps the field under its own name, where redaction still applies
+          for (const [field, value] of Object.entries(options)) {
+            if (value !== `$${field}`) assertNoRedactedPaths(value, rules, namespace);
+          }
+        } else {
+          assertNoRedactedPaths(spec, rules, namespace);
+        }
+      }
+    }
+  }
+
+  private rulesFor(database: string, collection: string): CompiledRule[] {
+    const namespace = `${database}.${collection}`;
+    return this.rules.filter((rule) => rule.namespace.test(namespace));
+  }
+
+  private applyRules<T>(doc: T, rules: CompiledRule[]): T {
+    const copy = cloneDocument(doc);
+    for (const rule of rules) {
+      for (const path of rule.paths) {
+        redactPath(copy, path, rule.strategy, this.hashKey);
+      }
+    }
+    return copy;
+  }
+}
+
+// Shallow-copies plain objects and arrays so BSON values (ObjectId, Date, ...) keep their types
+function cloneDocument<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneDocument) as T;
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, cloneDocument(v)])
+    ) as T;
+  }
+  return value;
+}
+
+function redactPath(target: unknown, path: string[], strategy: RedactionStrategy, hashKey: string | Buffer) {
+  if (Array.isArray(target)) {
+    target.forEach((item) => redactPath(item, path, strategy, hashKey));
+    return;
+  }
+  if (target === null || typeof target !== "object") return;
+
+  const record = target as Record<string, unknown>;
+  const [head, ...rest] = path;
+  const keys = head === "*" ? Object.keys(record) : [head];
+
+  for (const key of keys) {
+    if (!(key in record)) continue;
+    if (rest.length > 0) {
+      redactPath(record[key], rest, strategy, hashKey);
+    } else if (strategy === "drop") {
+      delete record[key];
+    } else {
+      record[key] = redactValue(record[key], strategy, hashKey);
+    }
+  }
+}
+
+function redactValue(value: unknown, strategy: RedactionStrategy, hashKey: string | Buffer): unknown {
+  if (value === null || value === undefined) return value;
+
+  switch (strategy) {
+    case "null":
+    case "drop":
+      return null;
+    case "hash": {
+      const text = typeof value === "string" ? value : BSON.EJSON.stringify(value);
+      return `hmac-sha256:${createHmac("sha256", hashKey).update(text).digest("hex").slice(0, 16)}`;
+    }
+    case "mask": {
+      if (typeof value !== "string" && typeof value !== "number") return "****";
+      const text = String(value);
+      const visible = text.length > 8 ? 4 : text.length > 4 ? 2 : 0;
+      return `${"*".repeat(Math.max(text.length - visible, 4))}${text.slice(text.length - visible)}`;
+    }
+  }
+}
+
+// Whether a field path reads a redacted path, an enclosing document or part of one
+function touchesRedactedPath(rules: CompiledRule[], field: string): boolean {
+  const path = field.split(".");
+  return rules.some((r) =>
+    r.paths.some((p) => p.slice(0, path.length).every((segment, i) => segment === "*" || segment === path[i]))
+  );
+}
+
+// The field path an expression string reads: "" for the whole document, undefined for literals and other variables
+function expressionFieldPath(value: string): string | undefined {
+  const variable = /^\$\$(ROOT|CURRENT)(?:\.(.*))?$/.exec(value);
+  if (variable) return variable[2] ?? "";
+  if (value.startsWith("$$") || !value.startsWith("$")) return undefined;
+  return value.slice(1);
+}
+
+function assertNoRedactedPaths(value: unknown, rules: CompiledRule[], namespace: string) {
+  if (rules.length === 0) return;
+
+  if (typeof value === "string") {
+    const path = expressionFieldPath(value);
+    if (path === "") {
+      throw new AccessDeniedError(
+        `"${value}" would copy redacted fields of ${namespace}; name the fields to return instead`,
+        namespace
+      );
+    }
+    if (path !== undefined && touchesRedactedPath(rules, path)) {
+      throw new AccessDeniedError(
+        `Field "${path}" of ${namespace} is redacted by policy and cannot be used in expressions`,
+        `${namespace}.${path}`
+      );
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item) => assertNoRedactedPaths(item, rules, namespace));
+    return;
+  }
+  if (value === null || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) return;
+
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if (key === "$literal") continue;
+    if (key === "$getField") {
+      // The field name is a plain string read from the current document unless an input is given
+      const field = typeof child === "string" ? child : (child as Record<string, unknown> | null)?.field;
+      const input = (child as Record<string, unknown> | null)?.input;
+      if (typeof field === "string" && (input === undefined || input === "$$CURRENT" || input === "$$ROOT")) {
+        assertNoRedactedPaths(`$${field}`, rules, namespace);
+      }
+    }
+    assertNoRedactedPaths(child, rules, namespace);
+  }
+}
+
+function assertNoRedactedFilterPaths(filter: unknown, rules: CompiledRule[], namespace: string) {
+  if (rules.length === 0 || filter === null || typeof filter !== "object") return;
+
+  for (const [key, condition] of Object.entries(filter as Record<string, unknown>)) {
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (Array.isArray(condition)) condition.forEach((child) => assertNoRedactedFilterPaths(child, rules, namespace));
+    } else if (key === "$expr") {
+      assertNoRedactedPaths(condition, rules, namespace);
+    } else if (key === "$where" || key === "$jsonSchema" || key === "$text") {
+      // These read fields the filter does not name ($text: whichever fields the text index covers)
+      throw new AccessDeniedError(
+        `${key} cannot be used on ${namespace}, which has redacted fields${key === "$text" ? "; use mongodb_text_search" : ""}`,
+        namespace
+      );
+    } else if (!key.startsWith("$") && touchesRedactedPath(rules, key)) {
+      throw new AccessDeniedError(
+        `Field "${key}" of ${namespace} is redacted by policy and cannot be used in filters`,
+        `${namespace}.${key}`
+      );
+    }
+  }
+}
+
+interface CollectionReference {
+  db?: string;
+  coll: string;
+}
+
+// The collection a $lookup, $graphLookup or $unionWith stage reads from
+function joinedCollection(stage: string, spec: unknown): CollectionReference | undefined {
+  if (stage === "$unionWith") {
+    if (typeof spec === "string") return { coll: spec };
+    const coll = (spec as Record<string, unknown> | null)?.coll;
+    return typeof coll === "string" ? { coll } : undefined;
+  }
+  const from = (spec as Record<string, unknown> | null)?.from;
+  if (typeof from === "string") return { coll: from };
+  if (from && typeof from === "object") {
+    const { db, coll } = from as Record<string, unknown>;
+    if (typeof coll === "string") return { db: typeof db === "string" ? db : undefined, coll };
+  }
+  return undefined;
+}
+
+function referencedCollections(value: unknown, refs: CollectionReference[] = []): CollectionReference[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => referencedCollections(item, refs));
+    return refs;
+  }
+  if (value === null || typeof value !== "object") return refs;
+
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if (key === "$lookup" || key === "$graphLookup" || key === "$unionWith") {
+      const ref = joinedCollection(key, child);
+      if (ref) refs.push(ref);
+    }
+    referencedCollections(child, refs);
+  }
+  return refs;
+}
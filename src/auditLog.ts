@@ -0,0 +1,195 @@
+// Append-only JSON Lines audit log of tool calls, with size-based rotation
+import { createHmac, randomBytes } from "node:crypto";
+import { appendFile, mkdir, rename, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import { BSON } from "mongodb";
+import { booleanFromEnv, positiveIntFromEnv } from "./env.js";
+
+export interface AuditRecord {
+  timestamp: string;
+  sessionId?: string;
+  clientId?: string;
+  clientName?: string;
+  tool: string;
+  connection?: string;
+  database?: string;
+  collection?: string;
+  filter?: unknown;
+  pipeline?: unknown;
+  update?: unknown;
+  // SQL text of mongodb_sql calls
+  sql?: string;
+  // Write and undo calls: what was asked for and whether it was the confirmed call that ran it
+  write?: { documents?: number; multi?: boolean; undoId?: string; confirmed: boolean };
+  resultCount?: number;
+  durationMs: number;
+  error?: { type: string; code?: string; message: string };
+}
+
+export interface AuditLogOptions {
+  // Audit file path; when unset only the in-memory session history is kept
+  path?: string;
+  maxBytes: number;
+  maxFiles: number;
+  hashLiterals: boolean;
+  // HMAC key for literal hashes; without one a random key is used
+  hashKey?: string;
+  sessionHistorySize: number;
+}
+
+// Sessions whose history is kept in memory; the oldest is evicted beyond this
+const MAX_SESSIONS = 1000;
+
+/**
+ * MONGODB_AUDIT_LOG names the file; MONGODB_AUDIT_LOG_MAX_BYTES and
+ * MONGODB_AUDIT_LOG_MAX_FILES control rotation and MONGODB_AUDIT_HASH_LITERALS
+ * replaces literal filter values with hashes, keyed by MONGODB_AUDIT_HASH_KEY
+ * (or MONGODB_REDACTION_HASH_KEY).
+ */
+export function auditLogOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuditLogOptions {
+  return {
+    path: env.MONGODB_AUDIT_LOG || undefined,
+    maxBytes: positiveIntFromEnv(env, "MONGODB_AUDIT_LOG_MAX_BYTES", 10 * 1024 * 1024),
+    maxFiles: positiveIntFromEnv(env, "MONGODB_AUDIT_LOG_MAX_FILES", 5),
+    hashLiterals: booleanFromEnv(env, "MONGODB_AUDIT_HASH_LITERALS", false),
+    hashKey: env.MONGODB_AUDIT_HASH_KEY || env.MONGODB_REDACTION_HASH_KEY || undefined,
+    sessionHistorySize: positiveIntFromEnv(env, "MONGODB_AUDIT_SESSION_HISTORY", 100),
+  };
+}
+
+// Keyed, so that short literals such as phone numbers cannot be recovered by hashing every candidate
+function hashLiteral(value: unknown, hashKey: string | Buffer): string {
+  const text = typeof value === "string" ? value : BSON.EJSON.stringify(value);
+  return `hmac-sha256:${createHmac("sha256", hashKey).update(text).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Convert a filter, update or pipeline to plain JSON (canonical EJSON for BSON values).
+ * With a hashKey, every literal value is replaced by a short keyed hash while keys,
+ * operators and "$field" references in expressions stay readable. Top-level arrays
+ * are pipelines; everything else is read as a filter or update, whose string values
+ * are literals even when they start with "$".
+ */
+export function normalizeQuery(value: unknown, hashKey?: string | Buffer): unknown {
+  return normalizeValue(value, hashKey, Array.isArray(value));
+}
+
+function normalizeValue(value: unknown, hashKey: string | Buffer | undefined, expression: boolean): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeValue(item, hashKey, expression));
+  }
+
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, child]) => [
+        key,
+        // $match holds a filter, $expr an expression and $literal a value that is never a field path
+        normalizeValue(child, hashKey, key === "$expr" ? true : key === "$match" || key === "$literal" ? false : expression),
+      ])
+    );
+  }
+
+  if (expression && typeof value === "string" && value.startsWith("$")) {
+    return value;
+  }
+
+  if (hashKey !== undefined) {
+    return hashLiteral(value, hashKey);
+  }
+
+  return value !== null && typeof value === "object" ? BSON.EJSON.serialize(value, { relaxed: false }) : value;
+}
+
+/**
+ * SQL text for the audit log. With a hashKey, string and number literals are
+ * replaced by short keyed hashes the same way filter values are.
+ */
+export function normalizeSql(sql: string, hashKey?: string | Buffer): string {
+  if (hashKey === undefined) return sql;
+  return sql.replace(/'(?:[^']|'')*'|(?<![\w$."`])\d+(?:\.\d+)?(?:[eE][+-]?\d+)?(?![\w$])/g, (literal) =>
+    literal.startsWith("'")
+      ? `'${hashLiteral(literal.slice(1, -1).replace(/''/g, "'"), hashKey)}'`
+      : hashLiteral(Number(literal), hashKey)
+  );
+}
+
+export class AuditLog {
+  private sessions = new Map<string, AuditRecord[]>();
+  private writes: Promise<void> = Promise.resolve();
+  private size: number | undefined;
+  private hashKey: string | Buffer;
+
+  constructor(readonly options: AuditLogOptions) {
+    this.hashKey = options.hashKey ?? randomBytes(32);
+  }
+
+  normalizeQuery(value: unknown): unknown {
+    return normalizeQuery(value, this.options.hashLiterals ? this.hashKey : undefined);
+  }
+
+  normalizeSql(sql: string): string {
+    return normalizeSql(sql, this.options.hashLiterals ? this.hashKey : undefined);
+  }
+
+  record(record: AuditRecord) {
+    const key = record.sessionId ?? "stdio";
+    const history = this.sessions.get(key) ?? [];
+    history.push(record);
+    if (history.length > this.options.sessionHistorySize) {
+      history.splice(0, history.length - this.options.sessionHistorySize);
+    }
+    // Re-insert so the map stays ordered by most recent activity
+    this.sessions.delete(key);
+    this.sessions.set(key, history);
+    if (this.sessions.size > MAX_SESSIONS) {
+      const [oldest] = this.sessions.keys();
+      this.sessions.delete(oldest);
+    }
+
+    if (this.options.path) {
+      const line = `${JSON.stringify(record)}\n`;
+      this.writes = this.writes
+        .then(() => this.append(line))
+        .catch((error) => console.error("[Audit Log Error]", error));
+    }
+  }
+
+  // Most recent first
+  sessionHistory(sessionId: string | undefined, limit: number): AuditRecord[] {
+    return (this.sessions.get(sessionId ?? "stdio") ?? []).slice(-limit).reverse();
+  }
+
+  endSession(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  async flush() {
+    await this.writes;
+  }
+
+  private async append(line: string) {
+    const path = this.options.path!;
+    if (this.size === undefined) {
+      await mkdir(dirname(path), { recursive: true });
+      this.size = await stat(path).then((s) => s.size, () => 0);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      await this.rotate(path);
+      this.size = 0;
+    }
+
+    await appendFile(path, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  // audit.log -> audit.log.1 -> ... -> audit.log.{maxFiles}, dropping the oldest
+  private async rotate(path: string) {
+    await rm(`${path}.${this.options.maxFiles}`, { force: true });
+    for (let i = this.options.maxFiles - 1; i >= 1; i--) {
+      await rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => undefined);
+    }
+    await rename(path, `${path}.1`);
+  }
+}
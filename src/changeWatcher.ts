@@ -0,0 +1,191 @@
+// Collection change notifications from change streams, with a polling fallback for standalone servers
+import { ChangeStream, ChangeStreamDocument, Collection, Document, MongoServerError, ResumeToken } from "mongodb";
+import { positiveIntFromEnv } from "./env.js";
+
+export interface ChangeWatcherOptions {
+  // Quiet period before listeners hear about a burst of changes
+  debounceMS: number;
+  // Interval between count/collStats checks when change streams are unavailable
+  pollIntervalMS: number;
+}
+
+export const CHANGE_OPERATION_TYPES = [
+  "insert",
+  "update",
+  "replace",
+  "delete",
+  "drop",
+  "rename",
+  "dropDatabase",
+  "invalidate",
+];
+
+// Returned by servers that are not replica set members or mongos
+const CHANGE_STREAMS_UNSUPPORTED = 40573;
+
+/**
+ * MONGODB_SUBSCRIPTION_DEBOUNCE_MS (default 1000) and MONGODB_SUBSCRIPTION_POLL_MS
+ * (default 5000) tune resource subscriptions.
+ */
+export function changeWatcherOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ChangeWatcherOptions {
+  return {
+    debounceMS: positiveIntFromEnv(env, "MONGODB_SUBSCRIPTION_DEBOUNCE_MS", 1000),
+    pollIntervalMS: positiveIntFromEnv(env, "MONGODB_SUBSCRIPTION_POLL_MS", 5000),
+  };
+}
+
+export function isChangeStreamUnsupported(error: unknown): boolean {
+  return error instanceof MongoServerError && error.code === CHANGE_STREAMS_UNSUPPORTED;
+}
+
+interface Watch {
+  listeners: Set<() => void>;
+  stream?: ChangeStream;
+  poller?: NodeJS.Timeout;
+  debounce?: NodeJS.Timeout;
+  mode: "changeStream" | "polling";
+}
+
+/**
+ * One watch per collection, shared by every subscriber and closed with the last one.
+ * A change stream is tried first; if it errors (standalone servers reject $changeStream)
+ * the watch falls back to polling the document count and collStats size.
+ */
+export class ChangeWatcher {
+  private watches = new Map<string, Watch>();
+
+  constructor(readonly options: ChangeWatcherOptions) {}
+
+  /**
+   * Call listener (debounced) whenever the collection changes. Returns the unsubscribe function.
+   */
+  subscribe(key: string, collection: Collection, listener: () => void): () => void {
+    let watch = this.watches.get(key);
+    if (!watch) {
+      watch = { listeners: new Set(), mode: "changeStream" };
+      this.watches.set(key, watch);
+      this.openChangeStream(key, watch, collection);
+    }
+    watch.listeners.add(listener);
+
+    return () => {
+      const current = this.watches.get(key);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        this.stop(key, current);
+      }
+    };
+  }
+
+  // How each watched collection is being observed, for diagnostics
+  status() {
+    return [...this.watches.entries()].map(([key, watch]) => ({
+      key,
+      mode: watch.mode,
+      subscribers: watch.listeners.size,
+    }));
+  }
+
+  async closeAll() {
+    for (const [key, watch] of [...this.watches.entries()]) {
+      this.stop(key, watch);
+    }
+  }
+
+  private openChangeStream(key: string, watch: Watch, collection: Collection) {
+    const stream = collection.watch([], { maxAwaitTimeMS: this.options.pollIntervalMS });
+    watch.stream = stream;
+    stream.on("change", () => this.changed(watch));
+    stream.on("error", (error) => {
+      stream.close().catch(() => undefined);
+      if (this.watches.get(key) !== watch) return;
+      watch.stream = undefined;
+      console.error(
+        isChangeStreamUnsupported(error)
+          ? `Change streams unavailable for ${key}; polling every ${this.options.pollIntervalMS}ms`
+          : `Change stream for ${key} failed (${error.message}); polling every ${this.options.pollIntervalMS}ms`
+      );
+      this.startPolling(watch, collection);
+    });
+  }
+
+  private startPolling(watch: Watch, collection: Collection) {
+    watch.mode = "polling";
+    let previous: string | undefined;
+    const poll = async () => {
+      try {
+        const count = await collection.estimatedDocumentCount();
+        const stats = await collection
+          .aggregate([{ $collStats: { storageStats: {} } }])
+          .toArray()
+          .then(([stat]) => stat?.storageStats?.size, () => undefined);
+        const signature = JSON.stringify([count, stats]);
+        if (previous !== undefined && signature !== previous) {
+          this.changed(watch);
+        }
+        previous = signature;
+      } catch (error) {
+        console.error("[Subscription Poll Error]", error);
+      }
+    };
+
+    poll();
+    watch.poller = setInterval(poll, this.options.pollIntervalMS);
+    watch.poller.unref();
+  }
+
+  private changed(watch: Watch) {
+    if (watch.debounce) return;
+    watch.debounce = setTimeout(() => {
+      watch.debounce = undefined;
+      for (const listener of watch.listeners) {
+        listener();
+      }
+    }, this.options.debounceMS);
+    watch.debounce.unref();
+  }
+
+  private stop(key: string, watch: Watch) {
+    this.watches.delete(key);
+    clearTimeout(watch.debounce);
+    clearInterval(watch.poller);
+    watch.stream?.close().catch(() => undefined);
+  }
+}
+
+export interface WatchRequest {
+  operationTypes?: string[];
+  maxEvents: number;
+  timeoutMS: number;
+  resumeAfter?: ResumeToken;
+}
+
+/**
+ * Wait up to timeoutMS for the next maxEvents changes on a collection, starting now
+ * (or after resumeAfter). Throws the server error on deployments without change streams.
+ */
+export async function nextChangeEvents(
+  collection: Collection,
+  request: WatchRequest
+): Promise<{ events: ChangeStreamDocument<Document>[]; resumeToken: ResumeToken; timedOut: boolean }> {
+  const pipeline = request.operationTypes?.length
+    ? [{ $match: { operationType: { $in: request.operationTypes } } }]
+    : [];
+  const deadline = Date.now() + request.timeoutMS;
+  const stream = collection.watch(pipeline, {
+    maxAwaitTimeMS: Math.min(1000, request.timeoutMS),
+    ...(request.resumeAfter ? { resumeAfter: request.resumeAfter } : {}),
+  });
+
+  const events: ChangeStreamDocument<Document>[] = [];
+  try {
+    while (events.length < request.maxEvents && Date.now() < deadline) {
+      const event = await stream.tryNext();
+      if (event) events.push(event);
+    }
+    return { events, resumeToken: stream.resumeToken, timedOut: events.length < request.maxEvents };
+  } finally {
+    await stream.close();
+  }
+}
@@ -0,0 +1,100 @@
+// Command-line options
+import { parseArgs } from "node:util";
+import { CONNECTION_SETTINGS } from "./config.js";
+
+export type TransportKind = "stdio" | "http";
+
+export interface CliOptions {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  insecureNoAuth: boolean;
+  allowedHosts?: string[];
+  configFile?: string;
+  debug: boolean;
+  // Connection setting flags as given, keyed by flag name; parsed by connectionConfig
+  connection: Record<string, string | undefined>;
+}
+
+const USAGE = `Usage: mongodb-mcp-server [options]
+
+Options:
+  --transport <stdio|http>  Transport to serve on (default: stdio)
+  --host <host>             HTTP bind address (default: 127.0.0.1)
+  --port <port>             HTTP port (default: $PORT or 3000)
+  --allowed-host <host>     Enable DNS rebinding protection for this Host header (repeatable)
+  --insecure-no-auth        Serve HTTP without bearer tokens
+  --config <file>           JSON connection config (default: $MONGODB_CONFIG_FILE)
+  --debug                   Include stack traces in tool errors (also $MONGODB_DEBUG)
+  -h, --help                Show this help
+
+Connection options (override the config file and environment):
+  --server-selection-timeout-ms <ms>   (default: 5000)
+  --connect-timeout-ms <ms>            (default: 10000)
+  --socket-timeout-ms <ms>
+  --direct-connection <true|false|auto> (default: auto, direct for a single-host mongodb:// URI)
+  --read-preference <mode>             primary, primaryPreferred, secondary, secondaryPreferred, nearest
+  --read-concern <level>               local, available, majority, linearizable, snapshot
+  --tls <true|false>
+  --tls-ca-file <file>
+  --tls-cert-key-file <file>
+  --tls-allow-invalid-certificates <true|false>
+  --auth-mechanism <mechanism>         SCRAM-SHA-1, SCRAM-SHA-256, MONGODB-X509
+  --auth-source <db>
+  --username <name>
+  --password-file <file>               File containing the password
+  --max-pool-size <n>
+  --min-pool-size <n>
+  --app-name <name>
+
+Each option is also read from the environment (--tls-ca-file from MONGODB_TLS_CA_FILE,
+and so on) and from the config file by its camelCase name (tlsCAFile). The connection
+string comes from MONGODB_URI or the config file's "uri".
+
+HTTP bearer tokens are read from MCP_AUTH_TOKENS ("token" or "clientId:token",
+comma-separated) and MCP_AUTH_TOKENS_FILE (one per line).`;
+
+export function parseCliOptions(argv: string[] = process.argv.slice(2)): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: "string", default: "stdio" },
+      host: { type: "string", default: "127.0.0.1" },
+      port: { type: "string", default: process.env.PORT || "3000" },
+      "allowed-host": { type: "string", multiple: true },
+      "insecure-no-auth": { type: "boolean", default: false },
+      config: { type: "string" },
+      debug: { type: "boolean", default: false },
+      ...Object.fromEntries(CONNECTION_SETTINGS.map((spec) => [spec.flag, { type: "string" as const }])),
+      help: { type: "boolean", short: "h", default: false },
+    },
+    strict: true,
+  });
+
+  if (values.help) {
+    console.error(USAGE);
+    process.exit(0);
+  }
+
+  if (values.transport !== "stdio" && values.transport !== "http") {
+    throw new Error(`--transport must be "stdio" or "http", got "${values.transport}"`);
+  }
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`--port must be a valid TCP port, got "${values.port}"`);
+  }
+
+  return {
+    transport: values.transport,
+    host: values.host!,
+    port,
+    insecureNoAuth: values["insecure-no-auth"]!,
+    allowedHosts: values["allowed-host"],
+    configFile: values.config,
+    debug: values.debug!,
+    connection: Object.fromEntries(
+      CONNECTION_SETTINGS.map((spec) => [spec.flag, (values as Record<string, unknown>)[spec.flag] as string | undefined])
+    ),
+  };
+}
@@ -0,0 +1,285 @@
+// Layered connection settings: defaults < config file < environment < command-line flags
+import { existsSync, readFileSync } from "node:fs";
+import { MongoClientOptions, ReadConcernLevel, ReadPreferenceMode } from "mongodb";
+
+export type AuthMechanism = "SCRAM-SHA-1" | "SCRAM-SHA-256" | "MONGODB-X509";
+
+export interface ConnectionSettings {
+  serverSelectionTimeoutMS?: number;
+  connectTimeoutMS?: number;
+  socketTimeoutMS?: number;
+  // "auto" connects directly to a single-host mongodb:// URI and discovers the topology otherwise
+  directConnection?: boolean | "auto";
+  readPreference?: ReadPreferenceMode;
+  readConcern?: ReadConcernLevel;
+  tls?: boolean;
+  tlsCAFile?: string;
+  tlsCertificateKeyFile?: string;
+  tlsAllowInvalidCertificates?: boolean;
+  authMechanism?: AuthMechanism;
+  authSource?: string;
+  username?: string;
+  // The password is read from this file when connecting and never stored in config
+  passwordFile?: string;
+  maxPoolSize?: number;
+  minPoolSize?: number;
+  appName?: string;
+}
+
+export interface BaseConnectionConfig {
+  uri: string;
+  database: string;
+  settings: ConnectionSettings;
+}
+
+type SettingKind = "positiveInt" | "nonNegativeInt" | "boolean" | "auto" | "string" | "file" | readonly string[];
+
+interface SettingSpec {
+  key: keyof ConnectionSettings;
+  env: string;
+  flag: string;
+  kind: SettingKind;
+}
+
+export const READ_PREFERENCES: ReadPreferenceMode[] = [
+  "primary",
+  "primaryPreferred",
+  "secondary",
+  "secondaryPreferred",
+  "nearest",
+];
+const READ_CONCERNS: ReadConcernLevel[] = ["local", "available", "majority", "linearizable", "snapshot"];
+const AUTH_MECHANISMS: AuthMechanism[] = ["SCRAM-SHA-1", "SCRAM-SHA-256", "MONGODB-X509"];
+
+export const CONNECTION_SETTINGS: SettingSpec[] = [
+  { key: "serverSelectionTimeoutMS", env: "MONGODB_SERVER_SELECTION_TIMEOUT_MS", flag: "server-selection-timeout-ms", kind: "positiveInt" },
+  { key: "connectTimeoutMS", env: "MONGODB_CONNECT_TIMEOUT_MS", flag: "connect-timeout-ms", kind: "positiveInt" },
+  { key: "socketTimeoutMS", env: "MONGODB_SOCKET_TIMEOUT_MS", flag: "socket-timeout-ms", kind: "nonNegativeInt" },
+  { key: "directConnection", env: "MONGODB_DIRECT_CONNECTION", flag: "direct-connection", kind: "auto" },
+  { key: "readPreference", env: "MONGODB_READ_PREFERENCE", flag: "read-preference", kind: READ_PREFERENCES },
+  { key: "readConcern", env: "MONGODB_READ_CONCERN", flag: "read-concern", kind: READ_CONCERNS },
+  { key: "tls", env: "MONGODB_TLS", flag: "tls", kind: "boolean" },
+  { key: "tlsCAFile", env: "MONGODB_TLS_CA_FILE", flag: "tls-ca-file", kind: "file" },
+  { key: "tlsCertificateKeyFile", env: "MONGODB_TLS_CERT_KEY_FILE", flag: "tls-cert-key-file", kind: "file" },
+  { key: "tlsAllowInvalidCertificates", env: "MONGODB_TLS_ALLOW_INVALID_CERTIFICATES", flag: "tls-allow-invalid-certificates", kind: "boolean" },
+  { key: "authMechanism", env: "MONGODB_AUTH_MECHANISM", flag: "auth-mechanism", kind: AUTH_MECHANISMS },
+  { key: "authSource", env: "MONGODB_AUTH_SOURCE", flag: "auth-source", kind: "string" },
+  { key: "username", env: "MONGODB_USERNAME", flag: "username", kind: "string" },
+  { key: "passwordFile", env: "MONGODB_PASSWORD_FILE", flag: "password-file", kind: "file" },
+  { key: "maxPoolSize", env: "MONGODB_MAX_POOL_SIZE", flag: "max-pool-size", kind: "positiveInt" },
+  { key: "minPoolSize", env: "MONGODB_MIN_POOL_SIZE", flag: "min-pool-size", kind: "nonNegativeInt" },
+  { key: "appName", env: "MONGODB_APP_NAME", flag: "app-name", kind: "string" },
+];
+
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  serverSelectionTimeoutMS: 5000,
+  connectTimeoutMS: 10000,
+  directConnection: "auto",
+  appName: "mongodb-mcp-server",
+};
+
+// Values from the environment and the command line arrive as strings; config files may use JSON types
+function parseSetting(spec: SettingSpec, raw: unknown, source: string): unknown {
+  const fail = (expected: string): never => {
+    throw new Error(`${source}: ${spec.key} must be ${expected}`);
+  };
+  const text = typeof raw === "string" ? raw.trim() : raw;
+
+  switch (spec.kind) {
+    case "positiveInt":
+    case "nonNegativeInt": {
+      const number = typeof text === "string" && text !== "" ? Number(text) : text;
+      const min = spec.kind === "positiveInt" ? 1 : 0;
+      return typeof number === "number" && Number.isInteger(number) && number >= min
+        ? number
+        : fail(min === 1 ? "a positive integer" : "a non-negative integer");
+    }
+    case "boolean":
+    case "auto":
+      if (typeof text === "boolean") return text;
+      if (spec.kind === "auto" && text === "auto") return "auto";
+      if (typeof text === "string" && /^(1|true|yes|on)$/i.test(text)) return true;
+      if (typeof text === "string" && /^(0|false|no|off)$/i.test(text)) return false;
+      return fail(spec.kind === "auto" ? "true, false or auto" : "true or false");
+    case "string":
+    case "file":
+      if (typeof text !== "string" || text === "") return fail("a non-empty string");
+      if (spec.kind === "file" && !existsSync(text)) {
+        throw new Error(`${source}: ${spec.key} file ${text} does not exist`);
+      }
+      return text;
+    default:
+      return typeof text === "string" && spec.kind.includes(text) ? text : fail(`one of ${spec.kind.join(", ")}`);
+  }
+}
+
+/**
+ * Validate the connection settings in a config file or profile object.
+ * Keys that are not connection settings are left to the caller.
+ */
+export function settingsFromObject(raw: Record<string, unknown>, source: string): ConnectionSettings {
+  const settings: Record<string, unknown> = {};
+  for (const spec of CONNECTION_SETTINGS) {
+    if (raw[spec.key] !== undefined) settings[spec.key] = parseSetting(spec, raw[spec.key], source);
+  }
+  if ("password" in raw) {
+    throw new Error(`${source}: put the password in a file and set passwordFile instead of password`);
+  }
+  return settings as ConnectionSettings;
+}
+
+function settingsFromStrings(
+  values: Record<string, string | undefined>,
+  name: (spec: SettingSpec) => string,
+  source: (name: string) => string
+): ConnectionSettings {
+  const settings: Record<string, unknown> = {};
+  for (const spec of CONNECTION_SETTINGS) {
+    const value = values[name(spec)];
+    if (value) settings[spec.key] = parseSetting(spec, value, source(name(spec)));
+  }
+  return settings as ConnectionSettings;
+}
+
+/**
+ * Check combinations that only make sense together, after all layers are merged.
+ */
+export function validateSettings(settings: ConnectionSettings, source: string) {
+  if (settings.authMechanism === "MONGODB-X509") {
+    if (!settings.tlsCertificateKeyFile) {
+      throw new Error(`${source}: MONGODB-X509 authentication needs tlsCertificateKeyFile`);
+    }
+    if (settings.passwordFile) {
+      throw new Error(`${source}: MONGODB-X509 authentication does not use a password`);
+    }
+    if (settings.tls === false) {
+      throw new Error(`${source}: MONGODB-X509 authentication needs tls`);
+    }
+  }
+  if (settings.passwordFile && !settings.username) {
+    throw new Error(`${source}: passwordFile needs a username`);
+  }
+  if (settings.username && !settings.passwordFile && settings.authMechanism !== "MONGODB-X509") {
+    throw new Error(`${source}: username needs a passwordFile`);
+  }
+  if (settings.tls === false && (settings.tlsCAFile || settings.tlsCertificateKeyFile)) {
+    throw new Error(`${source}: TLS certificate files are set but tls is false`);
+  }
+  if (
+    settings.minPoolSize !== undefined &&
+    settings.maxPoolSize !== undefined &&
+    settings.minPoolSize > settings.maxPoolSize
+  ) {
+    throw new Error(`${source}: minPoolSize cannot be larger than maxPoolSize`);
+  }
+}
+
+export function validateUri(uri: unknown, source: string): string {
+  if (typeof uri !== "string" || !/^mongodb(\+srv)?:\/\//.test(uri)) {
+    throw new Error(`${source} needs a mongodb:// or mongodb+srv:// uri`);
+  }
+  return uri;
+}
+
+/**
+ * Merge the layers. The config file (MONGODB_CONFIG_FILE or --config) is a JSON
+ * object with uri, database and any connection setting by its camelCase name;
+ * each setting can be overridden by its environment variable and then by its flag.
+ */
+export function connectionConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  cli: { configFile?: string; settings?: Record<string, string | undefined> } = {}
+): BaseConnectionConfig {
+  const file = cli.configFile ?? env.MONGODB_CONFIG_FILE;
+  let fileConfig: Record<string, unknown> = {};
+  if (file) {
+    try {
+      fileConfig = JSON.parse(readFileSync(file, "utf8"));
+    } catch (error) {
+      throw new Error(`Could not read config ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!fileConfig || typeof fileConfig !== "object" || Array.isArray(fileConfig)) {
+      throw new Error(`Config ${file} must be a JSON object`);
+    }
+    const known = new Set(["uri", "database", ...CONNECTION_SETTINGS.map((spec) => spec.key)]);
+    const unknown = Object.keys(fileConfig).filter((key) => !known.has(key) && key !== "password");
+    if (unknown.length > 0) {
+      throw new Error(`Config ${file}: unknown setting ${unknown.join(", ")}`);
+    }
+  }
+
+  const settings: ConnectionSettings = {
+    ...DEFAULT_CONNECTION_SETTINGS,
+    ...(file ? settingsFromObject(fileConfig, `Config ${file}`) : {}),
+    ...settingsFromStrings(env, (spec) => spec.env, (name) => name),
+    ...settingsFromStrings(cli.settings ?? {}, (spec) => spec.flag, (name) => `--${name}`),
+  };
+  validateSettings(settings, "Connection settings");
+
+  const uri = env.MONGODB_URI || (fileConfig.uri as string | undefined) || "mongodb://localhost:27017";
+  const database = env.MONGODB_DATABASE || (fileConfig.database as string | undefined) || "mycompany";
+  if (typeof database !== "string" || database.length === 0) {
+    throw new Error("Connection settings need a default database");
+  }
+  return { uri: validateUri(uri, "Connection settings"), database, settings };
+}
+
+/**
+ * A single-host mongodb:// URI without replicaSet or loadBalanced, e.g. a
+ * MongoDB container whose replica set members advertise unreachable hostnames.
+ */
+export function isSingleHostUri(uri: string): boolean {
+  const match = uri.match(/^mongodb:\/\/(?:[^@/]*@)?([^/?]*)(?:\/[^?]*)?(?:\?(.*))?$/);
+  if (!match) return false;
+  const params = new URLSearchParams(match[2] ?? "");
+  return !match[1].includes(",") && !params.has("replicaSet") && !params.has("loadBalanced");
+}
+
+/**
+ * Driver options for the settings. Reads the password file, so call it when connecting.
+ */
+export function mongoClientOptions(uri: string, settings: ConnectionSettings): MongoClientOptions {
+  let password: string | undefined;
+  if (settings.passwordFile) {
+    try {
+      password = readFileSync(settings.passwordFile, "utf8").replace(/\r?\n$/, "");
+    } catch (error) {
+      throw new Error(
+        `Could not read password file ${settings.passwordFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!password) throw new Error(`Password file ${settings.passwordFile} is empty`);
+  }
+
+  // A directConnection parameter in the URI wins over "auto"
+  const direct =
+    settings.directConnection === "auto"
+      ? /[?&]directConnection=/i.test(uri)
+        ? undefined
+        : isSingleHostUri(uri)
+      : settings.directConnection;
+
+  return {
+    ...(settings.serverSelectionTimeoutMS !== undefined ? { serverSelectionTimeoutMS: settings.serverSelectionTimeoutMS } : {}),
+    ...(settings.connectTimeoutMS !== undefined ? { connectTimeoutMS: settings.connectTimeoutMS } : {}),
+    ...(settings.socketTimeoutMS !== undefined ? { socketTimeoutMS: settings.socketTimeoutMS } : {}),
+    ...(direct !== undefined ? { directConnection: direct } : {}),
+    ...(settings.readPreference ? { readPreference: settings.readPreference } : {}),
+    ...(settings.readConcern ? { readConcernLevel: settings.readConcern } : {}),
+    ...(settings.tls !== undefined
+      ? { tls: settings.tls }
+      : settings.tlsCAFile || settings.tlsCertificateKeyFile
+      ? { tls: true }
+      : {}),
+    ...(settings.tlsCAFile ? { tlsCAFile: settings.tlsCAFile } : {}),
+    ...(settings.tlsCertificateKeyFile ? { tlsCertificateKeyFile: settings.tlsCertificateKeyFile } : {}),
+    ...(settings.tlsAllowInvalidCertificates ? { tlsAllowInvalidCertificates: true } : {}),
+    ...(settings.authMechanism ? { authMechanism: settings.authMechanism } : {}),
+    ...(settings.authSource ? { authSource: settings.authSource } : {}),
+    ...(settings.username ? { auth: { username: settings.username, password } } : {}),
+    ...(settings.maxPoolSize !== undefined ? { maxPoolSize: settings.maxPoolSize } : {}),
+    ...(settings.minPoolSize !== undefined ? { minPoolSize: settings.minPoolSize } : {}),
+    ...(settings.appName ? { appName: settings.appName } : {}),
+  };
+}
+
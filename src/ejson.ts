@@ -0,0 +1,101 @@
+// MongoDB Extended JSON (EJSON) parsing and serialization for tool arguments and results
+import { BSON } from "mongodb";
+
+export type EJSONMode = "relaxed" | "canonical";
+
+export const EJSON_MODES: EJSONMode[] = ["relaxed", "canonical"];
+
+export function isEJSONMode(value: unknown): value is EJSONMode {
+  return typeof value === "string" && (EJSON_MODES as string[]).includes(value);
+}
+
+/**
+ * Resolve the EJSON mode for a call: the per-call argument wins over the server default.
+ */
+export function resolveEJSONMode(requested: unknown, fallback: EJSONMode): EJSONMode {
+  if (requested === undefined || requested === null || requested === "") return fallback;
+  if (!isEJSONMode(requested)) {
+    throw new Error(`Invalid ejsonMode "${String(requested)}" (expected one of: ${EJSON_MODES.join(", ")})`);
+  }
+  return requested;
+}
+
+export function ejsonModeFromEnv(env: NodeJS.ProcessEnv = process.env): EJSONMode {
+  const value = env.MONGODB_EJSON_MODE;
+  if (!value) return "relaxed";
+  if (!isEJSONMode(value)) {
+    throw new Error(`MONGODB_EJSON_MODE must be one of: ${EJSON_MODES.join(", ")}`);
+  }
+  return value;
+}
+
+export class EJSONParseError extends Error {
+  constructor(
+    message: string,
+    public readonly argument: string,
+    // "syntax" when the text is not JSON, "value" for valid JSON with an invalid EJSON value such as a bad $oid
+    public readonly kind: "syntax" | "value",
+    // Offset of the syntax error in the argument text, when the parser reports one
+    public readonly position?: number,
+    public readonly line?: number,
+    public readonly column?: number,
+    public readonly near?: string
+  ) {
+    super(message);
+    this.name = "EJSONParseError";
+  }
+}
+
+function syntaxErrorLocation(text: string, error: SyntaxError) {
+  // V8 reports either "... at position N" or "Unexpected token 'x', ..." without a position;
+  // the token alone cannot be located, as the same character may also appear earlier in a string
+  const at = /at position (\d+)/.exec(error.message);
+  if (!at) return {};
+  const position = Number(at[1]);
+  const before = text.slice(0, position).split("\n");
+  return {
+    position,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+    near: text.slice(Math.max(0, position - 10), position + 10),
+  };
+}
+
+/**
+ * Parse a JSON-string tool argument as EJSON, so that values like
+ * {"$oid": "..."}, {"$date": "..."} and {"$numberDecimal": "..."} become BSON types.
+ * Canonical mode keeps exact numeric types (Int32, Long, Double).
+ */
+export function parseEJSON(text: string, argument: string, mode: EJSONMode = "relaxed"): any {
+  try {
+    return BSON.EJSON.parse(text, { relaxed: mode === "relaxed" });
+  } catch (error) {
+    const syntax = error instanceof SyntaxError;
+    const { position, line, column, near } = syntax ? syntaxErrorLocation(text, error) : {};
+    throw new EJSONParseError(
+      `Invalid EJSON in "${argument}": ${error instanceof Error ? error.message : String(error)}`,
+      argument,
+      syntax ? "syntax" : "value",
+      position,
+      line,
+      column,
+      near
+    );
+  }
+}
+
+/**
+ * Parse an optional JSON-string argument, returning the fallback when it is absent.
+ */
+export function parseOptionalEJSON(
+  text: string | undefined,
+  argument: string,
+  fallback: unknown,
+  mode: EJSONMode = "relaxed"
+): any {
+  return text ? parseEJSON(text, argument, mode) : fallback;
+}
+
+export function stringifyEJSON(value: unknown, mode: EJSONMode = "relaxed"): string {
+  return BSON.EJSON.stringify(value, undefined, 2, { relaxed: mode === "relaxed" });
+}
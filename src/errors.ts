@@ -0,0 +1,300 @@
+// Classification of tool errors into stable codes, with hints for fixing the call
+import {
+  MongoError,
+  MongoNetworkError,
+  MongoNetworkTimeoutError,
+  MongoServerError,
+  MongoServerSelectionError,
+} from "mongodb";
+import { AccessDeniedError } from "./accessPolicy.js";
+import { EJSONParseError } from "./ejson.js";
+import { GuardError } from "./executionGuards.js";
+import { QuerySafetyError } from "./querySafety.js";
+import { MissingIndexError } from "./searchQueries.js";
+import { SqlSyntaxError } from "./sqlTranslator.js";
+
+export type ToolErrorCode =
+  | "INVALID_ARGUMENTS"
+  | "INVALID_JSON"
+  | "INVALID_SQL"
+  | "UNKNOWN_TOOL"
+  | "UNKNOWN_CONNECTION"
+  | "UNKNOWN_OPERATOR"
+  | "UNKNOWN_COLLECTION"
+  | "INDEX_MISSING"
+  | "ACCESS_DENIED"
+  | "AUTHENTICATION_FAILED"
+  | "PERMISSION_DENIED"
+  | "QUERY_REJECTED"
+  | "GUARD_TRIPPED"
+  | "TIMEOUT"
+  | "NETWORK"
+  | "EXECUTION_FAILED";
+
+export interface ClassifiedError {
+  code: ToolErrorCode;
+  // Short title shown as "error" in the response
+  error: string;
+  message: string;
+  hint?: string;
+  // Fields describing the error: JSON position, guard limits, rejected operator, ...
+  details: Record<string, unknown>;
+}
+
+export class UnknownCollectionError extends Error {
+  constructor(
+    public readonly database: string,
+    public readonly collection: string,
+    // Readable collections with a similar name
+    public readonly suggestions: string[]
+  ) {
+    super(`Collection "${collection}" does not exist in database "${database}"`);
+    this.name = "UnknownCollectionError";
+  }
+}
+
+const QUERY_OPERATORS = [
+  "$eq", "$ne", "$gt", "$gte", "$lt", "$lte", "$in", "$nin", "$and", "$or", "$nor", "$not",
+  "$exists", "$type", "$expr", "$jsonSchema", "$mod", "$regex", "$options", "$text", "$search",
+  "$all", "$elemMatch", "$size", "$geoWithin", "$geoIntersects", "$near", "$nearSphere",
+  "$geometry", "$maxDistance", "$minDistance", "$box", "$center", "$centerSphere", "$polygon",
+  "$bitsAllSet", "$bitsAnySet", "$bitsAllClear", "$bitsAnyClear", "$comment",
+];
+
+const UPDATE_OPERATORS = [
+  "$set", "$unset", "$inc", "$mul", "$rename", "$min", "$max", "$currentDate", "$setOnInsert",
+  "$push", "$pull", "$pullAll", "$addToSet", "$pop", "$each", "$slice", "$sort", "$position", "$bit",
+];
+
+const PIPELINE_STAGES = [
+  "$match", "$project", "$addFields", "$set", "$unset", "$group", "$sort", "$limit", "$skip",
+  "$unwind", "$lookup", "$graphLookup", "$facet", "$bucket", "$bucketAuto", "$count",
+  "$sortByCount", "$replaceRoot", "$replaceWith", "$sample", "$unionWith", "$densify", "$fill",
+  "$setWindowFields", "$geoNear", "$redact", "$documents", "$search", "$searchMeta", "$out", "$merge",
+];
+
+const EXPRESSION_OPERATORS = [
+  "$sum", "$avg", "$min", "$max", "$first", "$last", "$push", "$addToSet", "$count", "$stdDevPop",
+  "$stdDevSamp", "$top", "$bottom", "$firstN", "$lastN", "$add", "$subtract", "$multiply",
+  "$divide", "$mod", "$abs", "$ceil", "$floor", "$round", "$trunc", "$pow", "$sqrt", "$eq", "$ne",
+  "$gt", "$gte", "$lt", "$lte", "$cmp", "$and", "$or", "$not", "$cond", "$ifNull", "$switch",
+  "$in", "$size", "$arrayElemAt", "$concatArrays", "$filter", "$map", "$reduce", "$slice",
+  "$isArray", "$objectToArray", "$arrayToObject", "$mergeObjects", "$concat", "$substr",
+  "$substrCP", "$toLower", "$toUpper", "$trim", "$split", "$strLenCP", "$regexMatch",
+  "$dateToString", "$dateFromString", "$dateTrunc", "$dateDiff", "$dateAdd", "$year", "$month",
+  "$dayOfMonth", "$dayOfWeek", "$hour", "$minute", "$second", "$toString", "$toInt", "$toLong",
+  "$toDouble", "$toDecimal", "$toDate", "$toObjectId", "$toBool", "$convert", "$type", "$literal",
+  "$let", "$setUnion", "$setIntersection", "$setDifference", "$getField", "$exp", "$ln", "$log10",
+];
+
+// Server messages naming an unknown operator, and the operators it could have been
+const UNKNOWN_OPERATOR_MESSAGES: { pattern: RegExp; candidates: string[] }[] = [
+  { pattern: /unrecognized pipeline stage name[^$\w]+(\$\w+)/i, candidates: PIPELINE_STAGES },
+  { pattern: /unknown modifier[^$\w]+(\$\w+)/i, candidates: UPDATE_OPERATORS },
+  { pattern: /unknown (?:top level )?operator[^$\w]+(\$\w+)/i, candidates: QUERY_OPERATORS },
+  {
+    pattern: /(?:unrecognized expression|unknown expression|unknown group operator)[^$\w]+(\$\w+)/i,
+    candidates: EXPRESSION_OPERATORS,
+  },
+];
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Candidates close to a misspelled name, nearest first. Case is ignored, and
+ * names further than a third of their length away are not suggested.
+ */
+export function similarNames(name: string, candidates: string[], limit = 3): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(target.length / 3));
+  return [...new Set(candidates)]
+    .map((candidate) => ({ candidate, distance: editDistance(target, candidate.toLowerCase()) }))
+    .filter(({ candidate, distance }) => distance <= maxDistance && candidate !== name)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+// "Did you mean `a`, `b` or `c`?" for the given names, or undefined when there are none
+export function didYouMean(names: string[]): string | undefined {
+  if (names.length === 0) return undefined;
+  const quoted = names.map((name) => `\`${name}\``);
+  return `Did you mean ${quoted.length === 1 ? quoted[0] : `${quoted.slice(0, -1).join(", ")} or ${quoted[quoted.length - 1]}`}?`;
+}
+
+function invalidJSONHint(error: EJSONParseError): string {
+  if (error.kind === "value") {
+    return "Check the EJSON values: $oid takes 24 hex characters, $date an ISO-8601 string or {\"$numberLong\": \"...\"}";
+  }
+  if (error.near ? error.near.includes("'") : error.message.includes("Unexpected token '''")) {
+    return "JSON needs double quotes around keys and strings, not single quotes";
+  }
+  return `"${error.argument}" must be a JSON string with double-quoted keys, e.g. {"status": "active", "qty": {"$gt": 5}}`;
+}
+
+/**
+ * Map an error thrown by a tool to a stable code, a title and, where the cause
+ * is recognizable, a hint on how to fix the call. Unrecognized errors become
+ * EXECUTION_FAILED with the original message.
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof EJSONParseError) {
+    return {
+      code: "INVALID_JSON",
+      error: "Invalid JSON",
+      message,
+      hint: invalidJSONHint(error),
+      details: { argument: error.argument, position: error.position, line: error.line, column: error.column, near: error.near },
+    };
+  }
+
+  if (error instanceof SqlSyntaxError) {
+    return {
+      code: "INVALID_SQL",
+      error: "Invalid SQL",
+      message,
+      hint:
+        "Supported: SELECT columns or COUNT/SUM/AVG/MIN/MAX FROM collection [INNER|LEFT JOIN other ON a.x = b.y] " +
+        "[WHERE ...] [GROUP BY ...] [HAVING ...] [ORDER BY ...] [LIMIT n] [OFFSET n]",
+      details: { position: error.position },
+    };
+  }
+
+  if (error instanceof UnknownCollectionError) {
+    return {
+      code: "UNKNOWN_COLLECTION",
+      error: "Unknown Collection",
+      message,
+      hint: didYouMean(error.suggestions) ?? "Use mongodb_list_collections to see the collections in this database",
+      details: { database: error.database, collection: error.collection },
+    };
+  }
+
+  if (error instanceof MissingIndexError) {
+    return {
+      code: "INDEX_MISSING",
+      error: "Index Missing",
+      message,
+      hint: error.suggestion,
+      details: { indexType: error.indexType },
+    };
+  }
+
+  if (error instanceof AccessDeniedError) {
+    return { code: "ACCESS_DENIED", error: "Access Denied", message, details: { target: error.target } };
+  }
+
+  if (error instanceof QuerySafetyError) {
+    return {
+      code: "QUERY_REJECTED",
+      error: "Query Rejected",
+      message,
+      details: { operator: error.operator, stage: error.stage, path: error.path },
+    };
+  }
+
+  if (error instanceof GuardError) {
+    return {
+      code: "GUARD_TRIPPED",
+      error: "Execution Guard Tripped",
+      message,
+      details: { guard: error.guard, limit: error.limit, actual: error.actual },
+    };
+  }
+
+  if (error instanceof MongoServerError) {
+    if (error.code === 50) {
+      return {
+        code: "TIMEOUT",
+        error: "Execution Guard Tripped",
+        message: "Operation exceeded its time limit (maxTimeMS)",
+        hint: "Narrow the filter, add an index (see mongodb_suggest_indexes) or pass a larger maxTimeMS",
+        details: { guard: "maxTimeMS" },
+      };
+    }
+    if (error.code === 18) {
+      return {
+        code: "AUTHENTICATION_FAILED",
+        error: "Authentication Failed",
+        message,
+        hint: "Check the username, password file, authSource and authMechanism of the connection profile",
+        details: { serverCode: error.code },
+      };
+    }
+    if (error.code === 13) {
+      return {
+        code: "PERMISSION_DENIED",
+        error: "Permission Denied",
+        message,
+        hint: "The database user lacks a privilege this operation needs; ask for a role such as read on the database",
+        details: { serverCode: error.code },
+      };
+    }
+    if (error.code === 26) {
+      return {
+        code: "UNKNOWN_COLLECTION",
+        error: "Unknown Collection",
+        message,
+        hint: "Use mongodb_list_collections to see the collections in this database",
+        details: { serverCode: error.code },
+      };
+    }
+    for (const { pattern, candidates } of UNKNOWN_OPERATOR_MESSAGES) {
+      const operator = pattern.exec(message)?.[1];
+      if (operator) {
+        return {
+          code: "UNKNOWN_OPERATOR",
+          error: "Unknown Operator",
+          message,
+          hint: didYouMean(similarNames(operator, candidates)),
+          details: { operator, serverCode: error.code },
+        };
+      }
+    }
+  }
+
+  if (error instanceof MongoNetworkTimeoutError) {
+    return {
+      code: "TIMEOUT",
+      error: "Timeout",
+      message,
+      hint: "The server did not answer within socketTimeoutMS or connectTimeoutMS; retry, or raise those settings",
+      details: {},
+    };
+  }
+
+  if (error instanceof MongoServerSelectionError || error instanceof MongoNetworkError) {
+    return {
+      code: "NETWORK",
+      error: "Network Error",
+      message,
+      hint: "Check that MongoDB is running and reachable at the configured host and port, and the TLS settings",
+      details: {},
+    };
+  }
+
+  // Wrapped errors, such as a failed connection, take the code and hint of their cause
+  if (error instanceof Error && error.cause !== undefined) {
+    const cause = classifyError(error.cause);
+    if (cause.code !== "EXECUTION_FAILED") return { ...cause, message };
+  }
+
+  return {
+    code: "EXECUTION_FAILED",
+    error: "Tool Execution Failed",
+    message,
+    details: error instanceof MongoError && error.code !== undefined ? { serverCode: error.code } : {},
+  };
+}
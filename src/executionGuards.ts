@@ -0,0 +1,164 @@
+// Server-enforced limits on query execution time, result sizes and pipeline shape
+import { AggregateOptions, Document } from "mongodb";
+import { booleanFromEnv, positiveIntFromEnv } from "./env.js";
+
+export interface ExecutionGuardOptions {
+  defaultMaxTimeMS: number;
+  maxTimeMS: number;
+  maxLimit: number;
+  maxSkip: number;
+  maxPipelineStages: number;
+  // $limit that ends every aggregation, capping its result count
+  autoLimit: number;
+  // Whether callers may request allowDiskUse on aggregations
+  allowDiskUse: boolean;
+  maxDistinctValues: number;
+}
+
+export class GuardError extends Error {
+  constructor(
+    message: string,
+    public readonly guard: string,
+    public readonly limit: number | boolean,
+    public readonly actual?: number | boolean
+  ) {
+    super(message);
+    this.name = "GuardError";
+  }
+}
+
+/**
+ * Guards are configured per deployment through MONGODB_DEFAULT_MAX_TIME_MS,
+ * MONGODB_MAX_TIME_MS, MONGODB_MAX_LIMIT, MONGODB_MAX_SKIP,
+ * MONGODB_MAX_PIPELINE_STAGES, MONGODB_AGGREGATE_AUTO_LIMIT,
+ * MONGODB_ALLOW_DISK_USE and MONGODB_MAX_DISTINCT_VALUES.
+ */
+export function executionGuardOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ExecutionGuardOptions {
+  const options: ExecutionGuardOptions = {
+    defaultMaxTimeMS: positiveIntFromEnv(env, "MONGODB_DEFAULT_MAX_TIME_MS", 30000),
+    maxTimeMS: positiveIntFromEnv(env, "MONGODB_MAX_TIME_MS", 120000),
+    maxLimit: positiveIntFromEnv(env, "MONGODB_MAX_LIMIT", 1000),
+    maxSkip: positiveIntFromEnv(env, "MONGODB_MAX_SKIP", 100000),
+    maxPipelineStages: positiveIntFromEnv(env, "MONGODB_MAX_PIPELINE_STAGES", 50),
+    autoLimit: positiveIntFromEnv(env, "MONGODB_AGGREGATE_AUTO_LIMIT", 1000),
+    allowDiskUse: booleanFromEnv(env, "MONGODB_ALLOW_DISK_USE", false),
+    maxDistinctValues: positiveIntFromEnv(env, "MONGODB_MAX_DISTINCT_VALUES", 10000),
+  };
+
+  if (options.defaultMaxTimeMS > options.maxTimeMS) {
+    throw new Error("MONGODB_DEFAULT_MAX_TIME_MS cannot exceed MONGODB_MAX_TIME_MS");
+  }
+  return options;
+}
+
+// The stages of a pipeline and, after each, those of its $lookup, $unionWith and $facet sub-pipelines
+function allStages(pipeline: Document[], stages: Document[] = []): Document[] {
+  for (const stage of pipeline) {
+    stages.push(stage);
+    const [name] = Object.keys(stage);
+    const body = stage[name];
+    if ((name === "$lookup" || name === "$unionWith") && Array.isArray(body?.pipeline)) {
+      allStages(body.pipeline, stages);
+    } else if (name === "$facet" && body && typeof body === "object") {
+      for (const subPipeline of Object.values(body)) {
+        if (Array.isArray(subPipeline)) allStages(subPipeline as Document[], stages);
+      }
+    }
+  }
+  return stages;
+}
+
+export class ExecutionGuard {
+  constructor(readonly options: ExecutionGuardOptions) {}
+
+  maxTimeMS(requested?: number): number {
+    if (requested === undefined || requested === null) return this.options.defaultMaxTimeMS;
+    if (!Number.isInteger(requested) || requested <= 0) {
+      throw new GuardError("maxTimeMS must be a positive integer", "maxTimeMS", this.options.maxTimeMS, requested);
+    }
+    if (requested > this.options.maxTimeMS) {
+      throw new GuardError(
+        `maxTimeMS ${requested} exceeds the server maximum of ${this.options.maxTimeMS}`,
+        "maxTimeMS",
+        this.options.maxTimeMS,
+        requested
+      );
+    }
+    return requested;
+  }
+
+  limit(requested: number | undefined, fallback: number): number {
+    const limit = requested || fallback;
+    if (!Number.isInteger(limit) || limit < 0 || limit > this.options.maxLimit) {
+      throw new GuardError(
+        `limit ${limit} exceeds the server maximum of ${this.options.maxLimit}; use the cursor token to page through results`,
+        "maxLimit",
+        this.options.maxLimit,
+        limit
+      );
+    }
+    return limit;
+  }
+
+  skip(requested: number | undefined): number {
+    const skip = requested || 0;
+    if (!Number.isInteger(skip) || skip < 0 || skip > this.options.maxSkip) {
+      throw new GuardError(
+        `skip ${skip} exceeds the server maximum of ${this.options.maxSkip}; filter on an indexed field instead of skipping`,
+        "maxSkip",
+        this.options.maxSkip,
+        skip
+      );
+    }
+    return skip;
+  }
+
+  /**
+   * Check the stage count and $skip stages, including those of nested
+   * sub-pipelines, and end the pipeline with the guard $limit. A $limit of the
+   * caller's only counts when it is the last stage and within the guard; an
+   * earlier one can be undone by $unwind.
+   */
+  pipeline(pipeline: Document[], autoLimit = this.options.autoLimit): Document[] {
+    const stages = allStages(pipeline);
+    if (stages.length > this.options.maxPipelineStages) {
+      throw new GuardError(
+        `Pipeline has ${stages.length} stages, more than the server maximum of ${this.options.maxPipelineStages}`,
+        "maxPipelineStages",
+        this.options.maxPipelineStages,
+        stages.length
+      );
+    }
+
+    stages.forEach((stage) => {
+      if ("$skip" in stage) this.skip(Number(stage.$skip));
+    });
+
+    const last = pipeline[pipeline.length - 1];
+    const endsWithinLimit = last && "$limit" in last && Number(last.$limit) <= autoLimit;
+    return endsWithinLimit ? pipeline : [...pipeline, { $limit: autoLimit }];
+  }
+
+  aggregateOptions(maxTimeMS?: number, allowDiskUse?: boolean): AggregateOptions {
+    if (allowDiskUse && !this.options.allowDiskUse) {
+      throw new GuardError("allowDiskUse is disabled on this server", "allowDiskUse", false, true);
+    }
+    return {
+      maxTimeMS: this.maxTimeMS(maxTimeMS),
+      allowDiskUse: Boolean(allowDiskUse),
+    };
+  }
+
+  distinctValues<T>(values: T[]): T[] {
+    if (values.length > this.options.maxDistinctValues) {
+      throw new GuardError(
+        `distinct returned ${values.length} values, more than the server maximum of ${this.options.maxDistinctValues}; ` +
+          `narrow the filter or use mongodb_aggregate with $group and $limit`,
+        "maxDistinctValues",
+        this.options.maxDistinctValues,
+        values.length
+      );
+    }
+    return values;
+  }
+}
@@ -0,0 +1,144 @@
+// Digest of explain() output: winning plan stages, index usage and execution stats
+import { Document } from "mongodb";
+
+export type ExplainVerbosity = "queryPlanner" | "executionStats";
+
+export const EXPLAIN_VERBOSITIES: ExplainVerbosity[] = ["queryPlanner", "executionStats"];
+
+export interface IndexUsage {
+  indexName: string;
+  keyPattern?: Document;
+  direction?: string;
+}
+
+export interface ExplainSummary {
+  namespace?: string;
+  winningPlanStages: string[];
+  indexesUsed: IndexUsage[];
+  collectionScan: boolean;
+  inMemorySort: boolean;
+  rejectedPlans: number;
+  execution?: {
+    nReturned: number;
+    keysExamined: number;
+    docsExamined: number;
+    executionTimeMillis: number;
+    docsExaminedPerReturned: number | null;
+  };
+  // Aggregation stages after the initial cursor stage, if any
+  pipelineStages?: string[];
+  warnings: string[];
+}
+
+// Stage names from both the classic and the slot-based (SBE) engines
+const INDEX_SCAN_STAGES = new Set(["IXSCAN", "EXPRESS_IXSCAN", "COUNT_SCAN", "DISTINCT_SCAN", "IDHACK", "EXPRESS_IDHACK"]);
+const SORT_STAGES = new Set(["SORT", "SORT_KEY_GENERATOR"]);
+
+/**
+ * Locate the queryPlanner/executionStats sections: find() explains carry them at
+ * the top level, aggregate() explains either at the top level (fully pushed down)
+ * or inside the first stage's $cursor, and sharded explains per shard.
+ */
+function planSections(explain: Document): { queryPlanner?: Document; executionStats?: Document; stages?: Document[] } {
+  if (explain.queryPlanner) {
+    return { queryPlanner: explain.queryPlanner, executionStats: explain.executionStats };
+  }
+
+  if (Array.isArray(explain.stages) && explain.stages.length > 0) {
+    const cursor = explain.stages[0].$cursor ?? {};
+    return {
+      queryPlanner: cursor.queryPlanner,
+      executionStats: cursor.executionStats,
+      stages: explain.stages.slice(1),
+    };
+  }
+
+  if (explain.shards && typeof explain.shards === "object") {
+    const [firstShard] = Object.values(explain.shards as Record<string, Document>);
+    if (firstShard) return planSections(firstShard);
+  }
+
+  return {};
+}
+
+function collectStages(plan: Document | undefined, stages: string[], indexes: IndexUsage[]) {
+  if (!plan || typeof plan !== "object") return;
+
+  // SBE plans wrap the tree in queryPlan
+  if (plan.queryPlan) {
+    collectStages(plan.queryPlan, stages, indexes);
+    return;
+  }
+
+  if (typeof plan.stage === "string") {
+    stages.push(plan.stage);
+    if (INDEX_SCAN_STAGES.has(plan.stage)) {
+      indexes.push({
+        indexName: plan.indexName ?? (plan.stage.includes("IDHACK") ? "_id_" : "unknown"),
+        keyPattern: plan.keyPattern,
+        direction: plan.direction,
+      });
+    }
+  }
+
+  collectStages(plan.inputStage, stages, indexes);
+  if (Array.isArray(plan.inputStages)) {
+    plan.inputStages.forEach((child: Document) => collectStages(child, stages, indexes));
+  }
+}
+
+export function summarizeExplain(explain: Document): ExplainSummary {
+  const { queryPlanner, executionStats, stages } = planSections(explain);
+  const winningPlanStages: string[] = [];
+  const indexesUsed: IndexUsage[] = [];
+  collectStages(queryPlanner?.winningPlan, winningPlanStages, indexesUsed);
+
+  const collectionScan = winningPlanStages.includes("COLLSCAN");
+  const inMemorySort = winningPlanStages.some((stage) => SORT_STAGES.has(stage));
+  const pipelineStages = stages?.map((stage) => Object.keys(stage)[0]);
+  const warnings: string[] = [];
+
+  if (collectionScan) {
+    warnings.push("COLLSCAN: the query scans the whole collection; consider an index on the filtered fields");
+  }
+  if (inMemorySort) {
+    warnings.push("In-memory SORT: no index provides the requested sort order");
+  }
+  if (pipelineStages?.includes("$sort")) {
+    warnings.push("$sort runs after the initial cursor stage and cannot use an index");
+  }
+
+  let execution: ExplainSummary["execution"];
+  if (executionStats) {
+    const nReturned = executionStats.nReturned ?? 0;
+    const docsExamined = executionStats.totalDocsExamined ?? 0;
+    const keysExamined = executionStats.totalKeysExamined ?? 0;
+    const docsExaminedPerReturned = nReturned > 0 ? Math.round((docsExamined / nReturned) * 100) / 100 : null;
+
+    execution = {
+      nReturned,
+      keysExamined,
+      docsExamined,
+      executionTimeMillis: executionStats.executionTimeMillis ?? 0,
+      docsExaminedPerReturned,
+    };
+
+    if (docsExamined > 0 && (docsExaminedPerReturned === null || docsExaminedPerReturned > 10)) {
+      warnings.push(
+        `Examined ${docsExamined} documents to return ${nReturned}; the filter is not selective on the chosen index`
+      );
+    }
+  }
+
+  return {
+    namespace: queryPlanner?.namespace,
+    winningPlanStages,
+    indexesUsed,
+    collectionScan,
+    inMemorySort,
+    rejectedPlans: Array.isArray(queryPlanner?.rejectedPlans) ? queryPlanner!.rejectedPlans.length : 0,
+    ...(execution ? { execution } : {}),
+    ...(pipelineStages && pipelineStages.length > 0 ? { pipelineStages } : {}),
+    warnings,
+  };
+}
@@ -0,0 +1,301 @@
+// Streaming export of query and aggregation results to CSV, NDJSON or EJSON array files
+import { randomBytes } from "node:crypto";
+import { createReadStream, createWriteStream, WriteStream } from "node:fs";
+import { mkdir, open, readdir, rm, stat } from "node:fs/promises";
+import { once } from "node:events";
+import { tmpdir } from "node:os";
+import { basename, extname, join } from "node:path";
+import { createInterface } from "node:readline";
+import { AbstractCursor, BSON, Document } from "mongodb";
+import { EJSONMode } from "./ejson.js";
+import { positiveIntFromEnv } from "./env.js";
+
+export type ExportFormat = "csv" | "ndjson" | "ejson";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson", "ejson"];
+
+const EXTENSIONS: Record<ExportFormat, string> = { csv: ".csv", ndjson: ".ndjson", ejson: ".json" };
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  ejson: "application/json",
+};
+
+// Resource URIs for export files: mongodb-export://{file name}
+export const EXPORT_URI_PREFIX = "mongodb-export://";
+
+export interface ExportOptions {
+  directory: string;
+  maxRows: number;
+  maxBytes: number;
+  // Largest page a resource read returns
+  readChunkBytes: number;
+}
+
+export interface ExportResult {
+  path: string;
+  uri: string;
+  format: ExportFormat;
+  rows: number;
+  bytes: number;
+  // Stopped at maxRows or maxBytes before the cursor was exhausted
+  truncated: boolean;
+}
+
+export interface ExportFile {
+  name: string;
+  uri: string;
+  format: ExportFormat;
+  bytes: number;
+  modified: Date;
+}
+
+/**
+ * MONGODB_EXPORT_DIR (default: a directory under the OS temp dir) receives the files;
+ * MONGODB_EXPORT_MAX_ROWS and MONGODB_EXPORT_MAX_BYTES bound each export, and
+ * MONGODB_EXPORT_READ_CHUNK_BYTES (default 1 MiB) the pages a resource read returns.
+ */
+export function exportOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ExportOptions {
+  return {
+    directory: env.MONGODB_EXPORT_DIR || join(tmpdir(), "mongodb-mcp-exports"),
+    maxRows: positiveIntFromEnv(env, "MONGODB_EXPORT_MAX_ROWS", 100000),
+    maxBytes: positiveIntFromEnv(env, "MONGODB_EXPORT_MAX_BYTES", 100 * 1024 * 1024),
+    readChunkBytes: positiveIntFromEnv(env, "MONGODB_EXPORT_READ_CHUNK_BYTES", 1024 * 1024),
+  };
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+function formatOfFile(name: string): ExportFormat | undefined {
+  const extension = extname(name);
+  return EXPORT_FORMATS.find((format) => EXTENSIONS[format] === extension);
+}
+
+type CellValue = string | number | boolean | null;
+
+function cellValue(value: unknown, mode: EJSONMode): CellValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof BSON.ObjectId) return value.toHexString();
+  if (value instanceof BSON.Binary) return value.toString("base64");
+  if (
+    value instanceof BSON.Decimal128 ||
+    value instanceof BSON.Long ||
+    value instanceof BSON.Int32 ||
+    value instanceof BSON.Double
+  ) {
+    return value.toString();
+  }
+  return BSON.EJSON.stringify(value, { relaxed: mode === "relaxed" });
+}
+
+/**
+ * Flatten nested documents into dotted column names ({a: {b: 1}} -> {"a.b": 1}).
+ * Arrays and other BSON values become a single cell.
+ */
+export function flattenDocument(doc: Document, mode: EJSONMode, prefix = "", row: Record<string, CellValue> = {}) {
+  for (const [key, value] of Object.entries(doc)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+      flattenDocument(value, mode, column, row);
+    } else {
+      row[column] = cellValue(value, mode);
+    }
+  }
+  return row;
+}
+
+const NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+export function csvCell(value: CellValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas; numbers like -5 are left alone
+  if (/^[=+\-@\t\r]/.test(text) && !NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Length of the first bytes of the buffer that does not end inside a UTF-8 character
+function utf8Boundary(buffer: Buffer, length: number): number {
+  let start = length;
+  while (start > 0 && (buffer[start - 1] & 0xc0) === 0x80) start--;
+  if (start === 0) return length;
+  const lead = buffer[start - 1];
+  const size = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return length - (start - 1) < size ? start - 1 : length;
+}
+
+async function write(stream: WriteStream, chunk: string) {
+  if (!stream.write(chunk)) {
+    await once(stream, "drain");
+  }
+}
+
+async function end(stream: WriteStream) {
+  stream.end();
+  await once(stream, "finish");
+}
+
+export class Exporter {
+  constructor(readonly options: ExportOptions) {}
+
+  uri(name: string): string {
+    return `${EXPORT_URI_PREFIX}${encodeURIComponent(name)}`;
+  }
+
+  /**
+   * Write every document from the cursor to a new file in the export directory.
+   * CSV columns are the union of all flattened fields, in order of first appearance,
+   * so rows go to a scratch file first and the header is written once they are known.
+   */
+  async exportCursor(
+    cursor: AbstractCursor<Document>,
+    collection: string,
+    format: ExportFormat,
+    mode: EJSONMode,
+    transform: (doc: Document) => Document = (doc) => doc
+  ): Promise<ExportResult> {
+    await mkdir(this.options.directory, { recursive: true });
+    const safeName = collection.replace(/[^A-Za-z0-9_.-]/g, "_");
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const name = `${safeName}-${stamp}-${randomBytes(3).toString("hex")}${EXTENSIONS[format]}`;
+    const path = join(this.options.directory, name);
+    const bodyPath = format === "csv" ? `${path}.rows` : path;
+
+    const out = createWriteStream(bodyPath, { mode: 0o600 });
+    const columns = new Map<string, number>();
+    let rows = 0;
+    let bytes = 0;
+    let truncated = false;
+
+    try {
+      if (format === "ejson") await write(out, "[");
+
+      while (rows < this.options.maxRows) {
+        const next = await cursor.next();
+        if (next === null) break;
+        const doc = transform(next);
+
+        let line: string;
+        if (format === "csv") {
+          const row = flattenDocument(doc, mode);
+          const cells: CellValue[] = [];
+          for (const [column, value] of Object.entries(row)) {
+            if (!columns.has(column)) columns.set(column, columns.size);
+            cells[columns.get(column)!] = value;
+          }
+          // Scratch rows are JSON arrays so embedded newlines survive the second pass
+          line = `${JSON.stringify(cells)}\n`;
+        } else {
+          const text = BSON.EJSON.stringify(doc, { relaxed: mode === "relaxed" });
+          line = format === "ndjson" ? `${text}\n` : `${rows > 0 ? "," : ""}\n${text}`;
+        }
+
+        if (bytes + Buffer.byteLength(line) > this.options.maxBytes) {
+          truncated = true;
+          break;
+        }
+        await write(out, line);
+        bytes += Buffer.byteLength(line);
+        rows++;
+      }
+      if (!truncated && rows >= this.options.maxRows) {
+        truncated = await cursor.hasNext();
+      }
+
+      if (format === "ejson") await write(out, "\n]\n");
+      await end(out);
+
+      if (format === "csv") {
+        await this.writeCsv(bodyPath, path, [...columns.keys()]);
+        await rm(bodyPath, { force: true });
+      }
+    } catch (error) {
+      out.destroy();
+      await rm(bodyPath, { force: true });
+      await rm(path, { force: true });
+      throw error;
+    } finally {
+      await cursor.close();
+    }
+
+    return { path, uri: this.uri(name), format, rows, bytes: (await stat(path)).size, truncated };
+  }
+
+  private async writeCsv(rowsPath: string, path: string, columns: string[]) {
+    const out = createWriteStream(path, { mode: 0o600 });
+    await write(out, `${columns.map(csvCell).join(",")}\r\n`);
+
+    const lines = createInterface({ input: createReadStream(rowsPath), crlfDelay: Infinity });
+    for await (const line of lines) {
+      const cells: CellValue[] = JSON.parse(line);
+      await write(out, `${columns.map((_, i) => csvCell(cells[i] ?? null)).join(",")}\r\n`);
+    }
+    await end(out);
+  }
+
+  async list(): Promise<ExportFile[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.options.directory);
+    } catch {
+      return [];
+    }
+
+    const files: ExportFile[] = [];
+    for (const name of names) {
+      const format = formatOfFile(name);
+      if (!format) continue;
+      const info = await stat(join(this.options.directory, name)).catch(() => undefined);
+      if (!info?.isFile()) continue;
+      files.push({ name, uri: this.uri(name), format, bytes: info.size, modified: info.mtime });
+    }
+    return files.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+  }
+
+  /**
+   * Read a page of an export file by resource URI: at most readChunkBytes from the
+   * byte offset given as "?offset=N", ending after a line break unless a single line
+   * is longer than the page. nextUri addresses the following page. Only plain file
+   * names inside the export directory resolve, so a URI cannot reach elsewhere on disk.
+   */
+  async read(uri: string): Promise<{ text: string; mimeType: string; offset: number; size: number; nextUri?: string }> {
+    const [encodedName, query = ""] = uri.slice(EXPORT_URI_PREFIX.length).split("?", 2);
+    const name = decodeURIComponent(encodedName);
+    const format = formatOfFile(name);
+    if (!format || name !== basename(name) || name.startsWith(".")) {
+      throw new Error(`Unknown export resource: ${uri}`);
+    }
+    const offsetParameter = new URLSearchParams(query).get("offset") ?? "0";
+    if (!/^\d+$/.test(offsetParameter)) {
+      throw new Error(`Invalid offset "${offsetParameter}" in ${uri}; use a byte offset from the previous page's nextUri`);
+    }
+    const offset = Number(offsetParameter);
+
+    const file = await open(join(this.options.directory, name), "r");
+    try {
+      const { size } = await file.stat();
+      const buffer = Buffer.alloc(Math.min(this.options.readChunkBytes, Math.max(size - offset, 0)));
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, offset);
+
+      let length = bytesRead;
+      if (offset + bytesRead < size) {
+        const lineEnd = buffer.lastIndexOf(0x0a, bytesRead - 1);
+        length = lineEnd >= 0 ? lineEnd + 1 : utf8Boundary(buffer, bytesRead) || bytesRead;
+      }
+      return {
+        text: buffer.toString("utf8", 0, length),
+        mimeType: EXPORT_MIME_TYPES[format],
+        offset,
+        size,
+        ...(offset + length < size ? { nextUri: `${this.uri(name)}?offset=${offset + length}` } : {}),
+      };
+    } finally {
+      await file.close();
+    }
+  }
+}
@@ -0,0 +1,149 @@
+// Per-field profiling (types, null rate, cardinality, top values, numeric and date distributions) in one aggregation
+import { Document } from "mongodb";
+
+export interface FieldStatsOptions {
+  topK: number;
+  buckets: number;
+  // Analyze a $sample of this many documents instead of every match
+  sampleSize?: number;
+}
+
+export interface Distribution {
+  count: number;
+  min: unknown;
+  max: unknown;
+  mean: unknown;
+  // Population standard deviation; milliseconds for dates
+  stdDev: number | null;
+  percentiles: Record<string, unknown>;
+  histogram: { min: unknown; max: unknown; count: number }[];
+}
+
+export interface FieldStats {
+  field: string;
+  documents: number;
+  missing: number;
+  nulls: number;
+  nullOrMissingRate: number;
+  types: { type: string; count: number }[];
+  cardinality: number;
+  topValues?: { value: unknown; count: number }[];
+  numeric?: Distribution;
+  date?: Distribution;
+}
+
+const NUMERIC_TYPES = ["int", "long", "double", "decimal"];
+const PERCENTILES = [5, 25, 50, 75, 95, 99];
+
+// Facet names cannot contain dots, so fields are numbered
+function facetName(index: number, facet: string): string {
+  return `f${index}_${facet}`;
+}
+
+function distributionFacets(path: string, types: string[], value: Document, buckets: number): Document {
+  const match = { $match: { $expr: { $in: [{ $type: path }, types] } } };
+  return {
+    stats: [
+      match,
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          min: { $min: value },
+          max: { $max: value },
+          mean: { $avg: value },
+          stdDev: { $stdDevPop: value },
+        },
+      },
+    ],
+    values: [match, { $project: { _id: 0, v: value } }, { $sort: { v: 1 } }, { $group: { _id: null, values: { $push: "$v" } } }],
+    histogram: [match, { $bucketAuto: { groupBy: value, buckets } }],
+  };
+}
+
+/**
+ * Stages appended after the filter (and optional $sample): a single $facet computing
+ * every statistic for every field, so all numbers describe the same documents.
+ * Numeric values are compared as doubles and dates as epoch milliseconds.
+ */
+export function fieldStatsPipeline(fields: string[], options: FieldStatsOptions): Document[] {
+  const facets: Document = { total: [{ $count: "n" }] };
+
+  fields.forEach((field, index) => {
+    const path = `$${field}`;
+    const present = { $match: { [field]: { $ne: null } } };
+    const perField: Document = {
+      types: [{ $group: { _id: { $type: path }, count: { $sum: 1 } } }, { $sort: { count: -1 } }],
+      cardinality: [present, { $group: { _id: path } }, { $count: "n" }],
+      top: [present, { $group: { _id: path, count: { $sum: 1 } } }, { $sort: { count: -1, _id: 1 } }, { $limit: options.topK }],
+    };
+    const numeric = distributionFacets(path, NUMERIC_TYPES, { $toDouble: path }, options.buckets);
+    const date = distributionFacets(path, ["date"], { $toLong: path }, options.buckets);
+    for (const [name, facet] of Object.entries(perField)) facets[facetName(index, name)] = facet;
+    for (const [name, facet] of Object.entries(numeric)) facets[facetName(index, `numeric_${name}`)] = facet;
+    for (const [name, facet] of Object.entries(date)) facets[facetName(index, `date_${name}`)] = facet;
+  });
+
+  return [...(options.sampleSize ? [{ $sample: { size: options.sampleSize } }] : []), { $facet: facets }];
+}
+
+function percentile(sorted: number[], p: number): number {
+  // Nearest-rank
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function distribution(result: Document, index: number, kind: "numeric" | "date"): Distribution | undefined {
+  const [stats] = result[facetName(index, `${kind}_stats`)] ?? [];
+  if (!stats || stats.count === 0) return undefined;
+
+  const toValue = (value: unknown) =>
+    kind === "date" && typeof value === "number" ? new Date(value) : value ?? null;
+  const values: number[] = (result[facetName(index, `${kind}_values`)]?.[0]?.values ?? []).map(Number);
+
+  return {
+    count: stats.count,
+    min: toValue(Number(stats.min)),
+    max: toValue(Number(stats.max)),
+    mean: toValue(stats.mean === null ? null : Number(stats.mean)),
+    stdDev: stats.stdDev === null ? null : Number(stats.stdDev),
+    percentiles: Object.fromEntries(PERCENTILES.map((p) => [`p${p}`, toValue(percentile(values, p))])),
+    histogram: (result[facetName(index, `${kind}_histogram`)] ?? []).map((bucket: Document) => ({
+      min: toValue(Number(bucket._id.min)),
+      max: toValue(Number(bucket._id.max)),
+      count: bucket.count,
+    })),
+  };
+}
+
+/**
+ * Shape the $facet output into one FieldStats per field.
+ */
+export function summarizeFieldStats(fields: string[], result: Document): FieldStats[] {
+  const documents: number = result.total?.[0]?.n ?? 0;
+
+  return fields.map((field, index) => {
+    const types: { type: string; count: number }[] = (result[facetName(index, "types")] ?? []).map((t: Document) => ({
+      type: t._id,
+      count: t.count,
+    }));
+    const countOf = (type: string) => types.find((t) => t.type === type)?.count ?? 0;
+    const missing = countOf("missing");
+    const nulls = countOf("null");
+
+    const numeric = distribution(result, index, "numeric");
+    const date = distribution(result, index, "date");
+    return {
+      field,
+      documents,
+      missing,
+      nulls,
+      nullOrMissingRate: documents === 0 ? 0 : Math.round(((missing + nulls) / documents) * 10000) / 10000,
+      types,
+      cardinality: result[facetName(index, "cardinality")]?.[0]?.n ?? 0,
+      topValues: (result[facetName(index, "top")] ?? []).map((t: Document) => ({ value: t._id, count: t.count })),
+      ...(numeric ? { numeric } : {}),
+      ...(date ? { date } : {}),
+    };
+  });
+}
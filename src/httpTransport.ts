@@ -0,0 +1,219 @@
+// Streamable HTTP transport with stateful sessions and static bearer-token auth
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import express, { Request, Response } from "express";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface BearerToken {
+  // Client identity reported to tool handlers as authInfo.clientId
+  clientId: string;
+  token: string;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Empty only when auth is explicitly disabled
+  tokens: BearerToken[];
+  allowedHosts?: string[];
+  // Sessions without a request for this long are closed, ending their subscriptions
+  sessionIdleTimeoutMs: number;
+  // Called once a session is closed by the client, the idle sweep or shutdown
+  onSessionClosed?: (sessionId: string) => void;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  // The authenticated client that opened the session; only it may use the session ID
+  clientId?: string;
+  lastActive: number;
+  // Requests still being answered, including open SSE streams
+  openRequests: number;
+}
+
+/**
+ * Parse bearer tokens from MCP_AUTH_TOKENS (comma-separated) and
+ * MCP_AUTH_TOKENS_FILE (one per line). Each entry is either "token" or
+ * "clientId:token"; unnamed tokens are reported as client-1, client-2, ...
+ */
+export function bearerTokensFromEnv(env: NodeJS.ProcessEnv = process.env): BearerToken[] {
+  const entries: string[] = [];
+
+  if (env.MCP_AUTH_TOKENS) {
+    entries.push(...env.MCP_AUTH_TOKENS.split(","));
+  }
+
+  if (env.MCP_AUTH_TOKENS_FILE) {
+    try {
+      entries.push(...readFileSync(env.MCP_AUTH_TOKENS_FILE, "utf8").split(/\r?\n/));
+    } catch (error) {
+      throw new Error(
+        `Could not read MCP_AUTH_TOKENS_FILE: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return entries
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0 && !entry.startsWith("#"))
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      return separator > 0
+        ? { clientId: entry.slice(0, separator), token: entry.slice(separator + 1) }
+        : { clientId: `client-${index + 1}`, token: entry };
+    });
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp. Each session gets its own Server
+ * from createServer, so handlers can tell clients apart; POST carries
+ * JSON-RPC messages, GET opens the SSE stream and DELETE ends the session.
+ * A session ID is only accepted from the client that opened the session, and
+ * idle sessions are closed after options.sessionIdleTimeoutMs.
+ */
+export async function startHttpServer(createServer: () => Server, options: HttpServerOptions) {
+  const sessions = new Map<string, Session>();
+  const app = express();
+  app.use(express.json({ limit: "4mb" }));
+
+  if (options.tokens.length > 0) {
+    app.use(
+      "/mcp",
+      requireBearerAuth({
+        verifier: {
+          async verifyAccessToken(token: string): Promise<AuthInfo> {
+            const match = options.tokens.find((candidate) => tokensMatch(candidate.token, token));
+            if (!match) {
+              throw new InvalidTokenError("Invalid bearer token");
+            }
+            // Static tokens never expire; report a rolling expiry as the middleware requires one
+            return {
+              token,
+              clientId: match.clientId,
+              scopes: [],
+              expiresAt: Math.floor(Date.now() / 1000) + 3600,
+            };
+          },
+        },
+      })
+    );
+  }
+
+  const sendError = (res: Response, status: number, message: string) => {
+    res.status(status).json({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    });
+  };
+
+  // Another client's session is reported as missing, so session IDs cannot be probed
+  const requestSession = (req: Request): Session | undefined => {
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    return session && session.clientId === req.auth?.clientId ? session : undefined;
+  };
+
+  const handleRequest = async (session: Session, req: Request, res: Response, body?: unknown) => {
+    session.lastActive = Date.now();
+    session.openRequests++;
+    res.on("close", () => {
+      session.openRequests--;
+      session.lastActive = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+  };
+
+  app.post("/mcp", async (req, res) => {
+    let session = requestSession(req);
+
+    if (!session) {
+      if (req.headers["mcp-session-id"]) {
+        sendError(res, 404, "Session not found");
+        return;
+      }
+      if (!isInitializeRequest(req.body)) {
+        sendError(res, 400, "Bad Request: No valid session ID provided");
+        return;
+      }
+
+      const newSession: Session = {
+        transport: new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (sessionId) => {
+            sessions.set(sessionId, newSession);
+            console.error(`MCP session ${sessionId} opened${req.auth ? ` for ${req.auth.clientId}` : ""}`);
+          },
+          enableDnsRebindingProtection: options.allowedHosts !== undefined,
+          allowedHosts: options.allowedHosts,
+        }),
+        clientId: req.auth?.clientId,
+        lastActive: Date.now(),
+        openRequests: 0,
+      };
+      const newTransport = newSession.transport;
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          sessions.delete(newTransport.sessionId);
+          options.onSessionClosed?.(newTransport.sessionId);
+          console.error(`MCP session ${newTransport.sessionId} closed`);
+        }
+      };
+
+      await createServer().connect(newTransport);
+      session = newSession;
+    }
+
+    await handleRequest(session, req, res, req.body);
+  });
+
+  // GET opens the server-to-client SSE stream; DELETE terminates the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const session = requestSession(req);
+    if (!session) {
+      sendError(res, req.headers["mcp-session-id"] ? 404 : 400, "Invalid or missing session ID");
+      return;
+    }
+    await handleRequest(session, req, res);
+  };
+
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  const httpServer = await new Promise<ReturnType<typeof app.listen>>((resolve, reject) => {
+    const listener = app.listen(options.port, options.host, () => resolve(listener));
+    listener.on("error", reject);
+  });
+
+  console.error(`MongoDB MCP server running at http://${options.host}:${options.port}/mcp`);
+
+  const idleSweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.openRequests > 0 || session.lastActive > cutoff) continue;
+      console.error(`MCP session ${sessionId} idle for ${options.sessionIdleTimeoutMs} ms, closing`);
+      session.transport.close().catch((error) => console.error("[Session Close Error]", error));
+    }
+  }, Math.min(options.sessionIdleTimeoutMs, 60000));
+  idleSweep.unref();
+
+  return {
+    async close() {
+      clearInterval(idleSweep);
+      await Promise.all([...sessions.values()].map((session) => session.transport.close()));
+      sessions.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
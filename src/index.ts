@@ -1,742 +1,1899 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  CallToolResult,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
   ReadResourceRequestSchema,
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { MongoClient, Db } from "mongodb";
+import { AbstractCursor, BSON, Db, Document, MongoClient } from "mongodb";
+import { AccessDeniedError, accessPolicyFromEnv } from "./accessPolicy.js";
+import { AuditLog, AuditRecord, auditLogOptionsFromEnv } from "./auditLog.js";
+import { ChangeWatcher, changeWatcherOptionsFromEnv, isChangeStreamUnsupported, nextChangeEvents } from "./changeWatcher.js";
+import { parseCliOptions } from "./cli.js";
+import { connectionConfig } from "./config.js";
+import { ConnectionManager, ConnectionProfile, profilesFromEnv, redactUri, retryOptionsFromEnv } from "./connections.js";
+import { EJSONMode, parseEJSON, parseOptionalEJSON, stringifyEJSON, resolveEJSONMode, ejsonModeFromEnv } from "./ejson.js";
+import { booleanFromEnv, positiveIntFromEnv } from "./env.js";
+import { ToolErrorCode, UnknownCollectionError, classifyError, didYouMean, similarNames } from "./errors.js";
+import { ExecutionGuard, GuardError, executionGuardOptionsFromEnv } from "./executionGuards.js";
+import { EXPORT_MIME_TYPES, EXPORT_URI_PREFIX, Exporter, exportOptionsFromEnv } from "./exporter.js";
+import { summarizeExplain } from "./explainSummary.js";
+import { fieldStatsPipeline, summarizeFieldStats } from "./fieldStats.js";
+import { ExistingIndex, QuerySpec, adviseIndexes } from "./indexAdvisor.js";
+import { bearerTokensFromEnv, startHttpServer } from "./httpTransport.js";
+import { CollectionSnapshot, PROMPTS, buildPrompt, requireArgument } from "./prompts.js";
+import { QueryHistory } from "./queryHistory.js";
+import { discoverRelationships, mermaidDiagram } from "./relationships.js";
+import {
+  RESOURCE_TEMPLATES,
+  ResourceTarget,
+  collectionUri,
+  documentIdCandidates,
+  parseResourceUri,
+  viewsUri,
+} from "./resourceUris.js";
+import {
+  AggregateContinuation,
+  FindContinuation,
+  abbreviateValue,
+  budgetOptionsFromEnv,
+  collectWithinBudget,
+  decodeContinuation,
+  encodeContinuation,
+} from "./resultBudget.js";
+import { SavedQuery, bindParameters, savedQueriesFromEnv, savedQueryTool } from "./savedQueries.js";
+import { SchemaAnalysis, analyzeDocuments, sampleDocuments, toJSONSchema } from "./schemaAnalyzer.js";
+import {
+  GEO_DISTANCE_FIELD,
+  TEXT_SCORE_FIELD,
+  geoIndexFields,
+  geoNearStage,
+  geoWithinFilter,
+  highlightMatches,
+  isInclusionProjection,
+  missingTextIndex,
+  resolveGeoField,
+  searchTerms,
+  textFilter,
+  textIndexOf,
+} from "./searchQueries.js";
+import { translateSql } from "./sqlTranslator.js";
+import { ToolDefinition, ToolInput, describeIssues, jsonSchema, toolDefinitions } from "./toolDefinitions.js";
+import { QuerySafetyValidator, operatorPolicyFromEnv } from "./querySafety.js";
+import {
+  ConfirmationTokens,
+  UndoStore,
+  WritePreview,
+  affectedDocuments,
+  diffDocuments,
+  updatePreviewPipeline,
+  writeModeOptionsFromEnv,
+} from "./writeMode.js";
 
 // Configuration
-const MONGODB_URI = process.env.MONGODB_URI || "mongodb://localhost:27017";
-const DATABASE_NAME = process.env.MONGODB_DATABASE || "mycompany";
+const CLI_OPTIONS = parseCliOptions();
+const PROFILES = profilesFromEnv(
+  process.env,
+  connectionConfig(process.env, { configFile: CLI_OPTIONS.configFile, settings: CLI_OPTIONS.connection })
+);
+const DEBUG = CLI_OPTIONS.debug || booleanFromEnv(process.env, "MONGODB_DEBUG", false);
+const EJSON_MODE = ejsonModeFromEnv();
+const ACCESS_POLICY = accessPolicyFromEnv();
+const SCHEMA_SAMPLE_SIZE = positiveIntFromEnv(process.env, "MONGODB_SCHEMA_SAMPLE_SIZE", 100);
+const MAX_SCHEMA_SAMPLE_SIZE = 10000;
+const RESPONSE_BUDGET = budgetOptionsFromEnv();
+const FIELD_STATS_SAMPLE_SIZE = positiveIntFromEnv(process.env, "MONGODB_FIELD_STATS_SAMPLE_SIZE", 10000);
+const MAX_FIELD_STATS_SAMPLE_SIZE = 50000;
+const MAX_FIELD_STATS_FIELDS = 10;
+const MAX_RELATIONSHIP_COLLECTIONS = 30;
+const SAVED_QUERIES = savedQueriesFromEnv();
+// Write tools are only offered when at least one profile allows writes
+const WRITES_ENABLED = PROFILES.profiles.some((profile) => profile.allowWrites);
+// Never retried: a write that failed on the network may still have been applied
+const WRITE_TOOLS = ["mongodb_insert", "mongodb_update", "mongodb_delete"];
+// Tools that may name a collection before it exists
+const CREATES_COLLECTION_TOOLS = ["mongodb_insert", "mongodb_watch"];
+const TOOLS = toolDefinitions({
+  schemaSampleSize: SCHEMA_SAMPLE_SIZE,
+  maxSchemaSampleSize: MAX_SCHEMA_SAMPLE_SIZE,
+  fieldStatsSampleSize: FIELD_STATS_SAMPLE_SIZE,
+  maxFieldStatsSampleSize: MAX_FIELD_STATS_SAMPLE_SIZE,
+  maxFieldStatsFields: MAX_FIELD_STATS_FIELDS,
+  maxRelationshipCollections: MAX_RELATIONSHIP_COLLECTIONS,
+});
+
+// Per-call state shared between the tool handler and the audit log
+interface ToolCallContext {
+  sessionId?: string;
+  // Authenticated HTTP client, if any
+  clientId?: string;
+  connection?: string;
+  database?: string;
+  resultCount?: number;
+  error?: { type: string; code?: ToolErrorCode; message: string };
+}
 
 class MongoDBMCPServer {
-  private server: Server;
-  private client: MongoClient | null = null;
-  private db: Db | null = null;
+  private connections = new ConnectionManager(PROFILES, retryOptionsFromEnv());
+  private querySafety = new QuerySafetyValidator(operatorPolicyFromEnv());
+  private queryHistory = new QueryHistory();
+  private executionGuard = new ExecutionGuard(executionGuardOptionsFromEnv());
+  private auditLog = new AuditLog(auditLogOptionsFromEnv());
+  private exporter = new Exporter(exportOptionsFromEnv());
+  private changeWatcher = new ChangeWatcher(changeWatcherOptionsFromEnv());
+  private writeOptions = writeModeOptionsFromEnv();
+  private confirmations = new ConfirmationTokens(this.writeOptions.confirmTTLMS);
+  private undoStore = new UndoStore(this.writeOptions.undoDirectory);
+  private httpServer?: { close(): Promise<void> };
+  private shuttingDown = false;
+  // "profile/db.collection" namespaces already seen to exist
+  private knownCollections = new Set<string>();
 
   constructor() {
-    this.server = new Server(
+    this.setupErrorHandling();
+  }
+
+  // One Server per connected client; all of them share the MongoDB connection
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "mongodb-mcp-server",
         version: "1.0.0",
       },
       {
         capabilities: {
-          resources: {},
+          resources: { subscribe: true },
           tools: {},
           prompts: {},
         },
       }
     );
 
-    this.setupHandlers();
-    this.setupErrorHandling();
-  }
+    server.onerror = (error) => {
+      console.error("[MCP Error]", error);
+    };
 
-  private async connectToMongoDB() {
-    if (!this.client) {
-      try {
-        console.error(`Attempting to connect to MongoDB...`);
-        console.error(`URI: ${MONGODB_URI}`);
-        console.error(`Database: ${DATABASE_NAME}`);
-        
-        this.client = new MongoClient(MONGODB_URI, {
-          serverSelectionTimeoutMS: 5000,
-          connectTimeoutMS: 10000,
-          directConnection: true, // Important for Docker MongoDB
-        });
-        
-        await this.client.connect();
-        
-        // Test the connection
-        await this.client.db("admin").command({ ping: 1 });
-        
-        this.db = this.client.db(DATABASE_NAME);
-        console.error(`✓ Successfully connected to MongoDB database: ${DATABASE_NAME}`);
-      } catch (error) {
-        console.error(`✗ Failed to connect to MongoDB:`, error);
-        throw new Error(`MongoDB connection failed: ${error instanceof Error ? error.message : String(error)}`);
-      }
-    }
+    this.setupHandlers(server);
+    return server;
   }
 
   private setupErrorHandling() {
-    this.server.onerror = (error) => {
-      console.error("[MCP Error]", error);
-    };
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.on(signal, () => void this.shutdown(signal));
+    }
+  }
 
-    process.on("SIGINT", async () => {
+  // Idempotent; exits even if cleanup hangs on an unreachable server
+  private async shutdown(reason: string) {
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+    console.error(`Shutting down (${reason})`);
+    setTimeout(() => process.exit(1), 10000).unref();
+    try {
       await this.cleanup();
-      process.exit(0);
-    });
+    } catch (error) {
+      console.error("[Shutdown Error]", error);
+    }
+    process.exit(0);
   }
 
   private async cleanup() {
-    if (this.client) {
-      await this.client.close();
-      console.error("MongoDB connection closed");
-    }
+    await this.httpServer?.close();
+    await this.changeWatcher.closeAll();
+    await this.auditLog.flush();
+    await this.connections.closeAll();
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // List available tools
-    this.server.setRequestHandler(
-      ListToolsRequestSchema,
-      async () => ({
-        tools: [
-          {
-            name: "mongodb_query",
-            description: "Execute a read-only query on a MongoDB collection with filtering, projection, sorting, and pagination",
-            inputSchema: {
-              type: "object",
-              properties: {
-                collection: {
-                  type: "string",
-                  description: "Name of the collection to query",
-                },
-                filter: {
-                  type: "string",
-                  description: "JSON string of MongoDB query filter (e.g., '{\"status\": \"active\"}')",
-                },
-                projection: {
-                  type: "string",
-                  description: "JSON string of fields to include/exclude (e.g., '{\"name\": 1, \"_id\": 0}')",
-                },
-                sort: {
-                  type: "string",
-                  description: "JSON string of sort specification (e.g., '{\"createdAt\": -1}')",
-                },
-                limit: {
-                  type: "number",
-                  description: "Maximum number of documents to return (default: 100)",
-                },
-                skip: {
-                  type: "number",
-                  description: "Number of documents to skip",
-                },
-              },
-              required: ["collection"],
-            },
-          },
-          {
-            name: "mongodb_count",
-            description: "Count documents in a collection matching a filter",
-            inputSchema: {
-              type: "object",
-              properties: {
-                collection: {
-                  type: "string",
-                  description: "Name of the collection",
-                },
-                filter: {
-                  type: "string",
-                  description: "JSON string of MongoDB query filter",
-                },
-              },
-              required: ["collection"],
-            },
-          },
-          {
-            name: "mongodb_aggregate",
-            description: "Run an aggregation pipeline on a collection",
-            inputSchema: {
-              type: "object",
-              properties: {
-                collection: {
-                  type: "string",
-                  description: "Name of the collection",
-                },
-                pipeline: {
-                  type: "string",
-                  description: "JSON string of aggregation pipeline stages array",
-                },
-              },
-              required: ["collection", "pipeline"],
-            },
-          },
-          {
-            name: "mongodb_distinct",
-            description: "Get distinct values for a field in a collection",
-            inputSchema: {
-              type: "object",
-              properties: {
-                collection: {
-                  type: "string",
-                  description: "Name of the collection",
-                },
-                field: {
-                  type: "string",
-                  description: "Name of the field to get distinct values from",
-                },
-                filter: {
-                  type: "string",
-                  description: "JSON string of MongoDB query filter",
-                },
-              },
-              required: ["collection", "field"],
-            },
-          },
-          {
-            name: "mongodb_list_databases",
-            description: "List all available databases in the MongoDB instance",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
-          },
-          {
-            name: "mongodb_list_collections",
-            description: "List all collections in the current database with their stats",
-            inputSchema: {
-              type: "object",
-              properties: {
-                database: {
-                  type: "string",
-                  description: "Optional: database name to list collections from (uses current database if not specified)",
-                },
-              },
-            },
-          },
-          {
-            name: "mongodb_verify_connection",
-            description: "Verify MongoDB connection and show current database information",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
-          },
-        ],
-      })
-    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [
+        ...Object.entries(TOOLS as Record<string, ToolDefinition>)
+          .filter(([, definition]) => WRITES_ENABLED || !definition.requiresWrites)
+          .map(([name, definition]) => ({
+            name,
+            description: definition.description,
+            inputSchema: jsonSchema(definition.input),
+            outputSchema: jsonSchema(definition.output),
+          })),
+        ...SAVED_QUERIES.map((query) => ({
+          ...savedQueryTool(query),
+          outputSchema: jsonSchema(TOOLS[query.find ? "mongodb_query" : "mongodb_aggregate"].output),
+        })),
+      ],
+    }));
 
     // List available resources (collections)
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      await this.connectToMongoDB();
-      
-      const collections = await this.db!.listCollections().toArray();
-      
-      return {
-        resources: collections.map((col) => ({
-          uri: `mongodb://${DATABASE_NAME}/${col.name}`,
-          mimeType: "application/json",
-          name: col.name,
-          description: `MongoDB collection: ${col.name}`,
-        })),
-      };
-    });
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = [];
 
-    // Read resource (get collection schema/sample)
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      await this.connectToMongoDB();
-      
-      const uri = request.params.uri;
-      const match = uri.match(/^mongodb:\/\/([^\/]+)\/(.+)$/);
-      
-      if (!match) {
-        throw new Error("Invalid MongoDB URI format");
+      // Collections in each profile's default database; unreachable profiles are skipped
+      const profileNames = this.connections.profileNames;
+      for (const profileName of profileNames) {
+        const profile = this.connections.profile(profileName);
+        if (!ACCESS_POLICY.canReadDatabase(profile.database)) continue;
+
+        try {
+          const client = await this.connections.client(profileName);
+          const collections = await client.db(profile.database).listCollections().toArray();
+          resources.push({
+            uri: viewsUri(profileName, profile.database),
+            mimeType: "application/json",
+            name: profileNames.length > 1 ? `${profileName}: views` : "views",
+            description: `Views in ${profile.database} (${profileName}) with their pipelines`,
+          });
+          resources.push(
+            ...collections
+              .filter((col) => ACCESS_POLICY.canReadCollection(profile.database, col.name))
+              .map((col) => ({
+                uri: collectionUri(profileName, profile.database, col.name),
+                mimeType: "application/json",
+                name: profileNames.length > 1 ? `${profileName}: ${col.name}` : col.name,
+                description: `MongoDB collection: ${profile.database}.${col.name} (${profileName})`,
+              }))
+          );
+        } catch (error) {
+          console.error(`Skipping resources for profile "${profileName}":`, error);
+        }
       }
 
-      const [, dbName, collectionName] = match;
-      
-      if (dbName !== DATABASE_NAME) {
-        throw new Error(`Database ${dbName} does not match connected database ${DATABASE_NAME}`);
+      // Files written by mongodb_export
+      for (const file of await this.exporter.list()) {
+        resources.push({
+          uri: file.uri,
+          mimeType: EXPORT_MIME_TYPES[file.format],
+          name: `Export: ${file.name}`,
+          description:
+            `Exported ${file.format} file (${file.bytes} bytes, ${file.modified.toISOString()}); ` +
+            `reads return pages of up to ${this.exporter.options.readChunkBytes} bytes, continued at _meta.nextUri`,
+        });
       }
 
-      const collection = this.db!.collection(collectionName);
-      
-      // Get collection stats
-      const stats = await this.db!.command({ collStats: collectionName });
-      
-      // Get sample documents (up to 5)
-      const sampleDocs = await collection.find({}).limit(5).toArray();
-      
-      // Infer schema from sample documents
-      const schema = this.inferSchema(sampleDocs);
+      return { resources };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    // Read resource (collection overview, document, indexes, schema, validator or views)
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      if (uri.startsWith(EXPORT_URI_PREFIX)) {
+        const file = await this.exporter.read(uri);
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: file.mimeType,
+              text: file.text,
+              _meta: { offset: file.offset, size: file.size, ...(file.nextUri ? { nextUri: file.nextUri } : {}) },
+            },
+          ],
+        };
+      }
 
+      const target = parseResourceUri(uri, this.connections.profileNames, this.connections.defaultProfileName);
       return {
         contents: [
           {
             uri,
             mimeType: "application/json",
-            text: JSON.stringify(
-              {
-                collection: collectionName,
-                stats: {
-                  count: stats.count,
-                  size: stats.size,
-                  avgObjSize: stats.avgObjSize,
-                },
-                schema,
-                sampleDocuments: sampleDocs,
-              },
-              null,
-              2
-            ),
+            text: stringifyEJSON(await this.readResource(target), EJSON_MODE),
           },
         ],
       };
     });
 
-    // List available tools
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
-      return {
-        prompts: [
+    // Subscriptions on this client's connection: resource URI -> unsubscribe
+    const subscriptions = new Map<string, () => void>();
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      if (subscriptions.has(uri)) return {};
+
+      const target = parseResourceUri(uri, this.connections.profileNames, this.connections.defaultProfileName);
+      if (target.kind === "views") {
+        throw new Error("Subscriptions are supported for collection resources only");
+      }
+      ACCESS_POLICY.assertCollection(target.database, target.collection);
+
+      const client = await this.connections.client(target.profile);
+      const collection = client.db(target.database).collection(target.collection);
+      const unsubscribe = this.changeWatcher.subscribe(
+        `${target.profile}/${target.database}/${target.collection}`,
+        collection,
+        () => {
+          server.sendResourceUpdated({ uri }).catch((error) => console.error("[Subscription Error]", error));
+        }
+      );
+      subscriptions.set(uri, unsubscribe);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.get(request.params.uri)?.();
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    server.onclose = () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+    };
+
+    // List available prompts
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS,
+    }));
+
+    // Get prompt, with the collection's schema, indexes and samples embedded
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      if (!PROMPTS.some((prompt) => prompt.name === name)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+
+      const snapshot = await this.collectionSnapshot(
+        args.connection,
+        args.database,
+        requireArgument(args, "collection")
+      );
+      return buildPrompt(name, args, snapshot, EJSON_MODE);
+    });
+
+    // Tool handlers
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const context: ToolCallContext = { sessionId: extra.sessionId, clientId: extra.authInfo?.clientId };
+      const started = Date.now();
+      const result = await this.callTool(request, context);
+
+      this.auditLog.record(
+        this.auditRecord(request, context, Date.now() - started, {
+          clientId: extra.authInfo?.clientId,
+          clientName: server.getClientVersion()?.name,
+        })
+      );
+      return result;
+    });
+  }
+
+  private async callTool(request: CallToolRequest, context: ToolCallContext, attempt = 0): Promise<CallToolResult> {
+    const savedQuery = SAVED_QUERIES.find((query) => query.name === request.params.name);
+    if (savedQuery) {
+      let resolved: CallToolRequest;
+      try {
+        resolved = this.savedQueryRequest(savedQuery, request.params.arguments ?? {});
+      } catch (error) {
+        context.error = this.errorSummary(error);
+        return this.errorResult(request.params.name, error, {
+          code: "INVALID_ARGUMENTS",
+          error: "Invalid Parameters",
+          message: error instanceof Error ? error.message : String(error),
+          details: {},
+        });
+      }
+      return this.callTool(resolved, context);
+    }
+
+    const definition: ToolDefinition | undefined = (TOOLS as Record<string, ToolDefinition>)[request.params.name];
+    const parsed = definition?.input.safeParse(request.params.arguments ?? {});
+    if (!parsed?.success) {
+      const issues = parsed ? describeIssues(parsed.error) : [];
+      const message = definition
+        ? issues.map((issue) => `${issue.argument}: ${issue.message}`).join("; ")
+        : `Unknown tool: ${request.params.name}`;
+      const code: ToolErrorCode = definition ? "INVALID_ARGUMENTS" : "UNKNOWN_TOOL";
+      context.error = { type: definition ? "InvalidArguments" : "UnknownTool", code, message };
+      const toolNames = [
+        ...Object.entries(TOOLS as Record<string, ToolDefinition>)
+          .filter(([, listed]) => WRITES_ENABLED || !listed.requiresWrites)
+          .map(([name]) => name),
+        ...SAVED_QUERIES.map((query) => query.name),
+      ];
+      return this.errorResult(request.params.name, undefined, {
+        code,
+        error: definition ? "Invalid Arguments" : "Unknown Tool",
+        message,
+        hint: definition ? undefined : didYouMean(similarNames(request.params.name, toolNames)),
+        details: issues.length > 0 ? { issues } : {},
+      });
+    }
+    const args: Record<string, any> = parsed.data;
+
+    if (request.params.name === "mongodb_query_history") {
+      const { limit, tool } = args as ToolInput<"mongodb_query_history">;
+      const history = this.auditLog
+        .sessionHistory(context.sessionId, 500)
+        .filter((entry) => !tool || entry.tool === tool)
+        .slice(0, Math.max(1, limit || 20));
+
+      context.resultCount = history.length;
+      return this.toolResult(
+        {
+          count: history.length,
+          calls: history.map(({ sessionId, clientId, clientName, ...call }) => call),
+        },
+        EJSON_MODE
+      );
+    }
+
+    if (request.params.name === "mongodb_undo") {
+      try {
+        return await this.undoTool(args, context);
+      } catch (error) {
+        context.error = this.errorSummary(error);
+        return this.errorResult(request.params.name, error);
+      }
+    }
+
+    if (request.params.name === "mongodb_list_connections") {
+      return this.toolResult(
+        {
+          defaultProfile: this.connections.defaultProfileName,
+          connections: this.connections.listProfiles(),
+        },
+        EJSON_MODE
+      );
+    }
+
+    let profile: ConnectionProfile;
+    let client: MongoClient;
+    try {
+      profile = this.connections.profile(typeof args.connection === "string" ? args.connection : undefined);
+      context.connection = profile.name;
+    } catch (error) {
+      context.error = this.errorSummary(error);
+      const profileNames = this.connections.listProfiles().map((listed) => listed.name);
+      return this.errorResult(request.params.name, error, {
+        code: "UNKNOWN_CONNECTION",
+        error: "Unknown Connection",
+        message: error instanceof Error ? error.message : String(error),
+        hint:
+          didYouMean(similarNames(String(args.connection), profileNames)) ??
+          "Use mongodb_list_connections to see the configured profiles",
+        details: {},
+      });
+    }
+
+    try {
+      client = await this.connections.client(profile.name);
+    } catch (error) {
+      context.error = this.errorSummary(error);
+      const classified = classifyError(error);
+      return this.errorResult(request.params.name, error, {
+        ...classified,
+        error: "MongoDB Connection Failed",
+        hint: classified.hint ?? "Please verify MongoDB is running and the connection settings are correct",
+        details: {
+          ...classified.details,
+          connection: profile.name,
+          uri: redactUri(profile.uri),
+          database: profile.database,
+          health: this.connections.healthOf(profile.name),
+        },
+      });
+    }
+
+    const dbName = typeof args.database === "string" && args.database ? args.database : profile.database;
+    const db = client.db(dbName);
+    context.database = dbName;
+
+    // Query shapes are remembered per connection and database for index suggestions
+    const scope = { connection: profile.name, database: dbName };
+
+    try {
+      const ejsonMode = resolveEJSONMode(args.ejsonMode, EJSON_MODE);
+      if (typeof args.collection === "string" && !CREATES_COLLECTION_TOOLS.includes(request.params.name)) {
+        await this.assertCollectionExists(profile.name, db, dbName, args.collection);
+      }
+
+      switch (request.params.name) {
+      case "mongodb_query": {
+        const { collection, filter, projection, sort, limit, skip, cursor, maxTimeMS } = args as ToolInput<"mongodb_query">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
+
+        let state: FindContinuation;
+        if (cursor) {
+          state = decodeContinuation(cursor, "find", { ...scope, collection });
+          this.querySafety.validateFilter(state.filter);
+          this.querySafety.validateProjection(state.projection);
+          this.querySafety.validateSort(state.sort);
+          ACCESS_POLICY.assertFilter(dbName, collection, state.filter);
+          ACCESS_POLICY.assertProjection(dbName, collection, state.projection);
+        } else {
+          const { filterObj, projectionObj, sortObj } = this.parseFindArguments({ filter, projection, sort }, ejsonMode, dbName, collection);
+          this.queryHistory.record({ tool: "mongodb_query", ...scope, collection, filter: filterObj, sort: sortObj });
+          state = {
+            kind: "find",
+            ...scope,
+            collection,
+            filter: filterObj,
+            projection: projectionObj,
+            sort: sortObj,
+            offset: this.executionGuard.skip(skip),
+            remaining: this.executionGuard.limit(limit, 100),
+          };
+        }
+
+        const page = await collectWithinBudget(
+          coll
+            .find(state.filter, { projection: state.projection })
+            .sort(state.sort || {})
+            .skip(state.offset)
+            .limit(state.remaining)
+            .maxTimeMS(this.executionGuard.maxTimeMS(maxTimeMS)),
+          RESPONSE_BUDGET,
+          ejsonMode,
+          (doc) => ACCESS_POLICY.redactDocument(dbName, collection, doc)
+        );
+        context.resultCount = page.documents.length;
+        const remaining = state.remaining - page.documents.length;
+        const nextCursor =
+          page.truncated && remaining > 0
+            ? encodeContinuation({ ...state, offset: state.offset + page.documents.length, remaining })
+            : undefined;
+
+        return this.toolResult(
           {
-            name: "analyze_collection",
-            description: "Analyze a MongoDB collection and provide insights",
-            arguments: [
-              {
-                name: "collection",
-                description: "Name of the collection to analyze",
-                required: true,
-              },
-            ],
+            collection,
+            count: page.documents.length,
+            truncated: page.truncated,
+            ...(nextCursor ? { cursor: nextCursor } : {}),
+            results: page.documents,
           },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_export": {
+        const { collection, format, filter, projection, sort, limit, skip, pipeline, allowDiskUse, maxTimeMS } = args as ToolInput<"mongodb_export">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
+        const maxRows = this.exporter.options.maxRows;
+
+        let source: AbstractCursor<Document>;
+        if (pipeline) {
+          // Auto-limit one past the row cap so the exporter can tell the output was cut short
+          const pipelineObj = this.parsePipelineArgument(pipeline, ejsonMode, dbName, collection, maxRows + 1);
+          this.queryHistory.recordPipeline("mongodb_export", { ...scope, collection }, pipelineObj);
+          source = coll.aggregate(pipelineObj, this.executionGuard.aggregateOptions(maxTimeMS, allowDiskUse));
+        } else {
+          if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0 || limit > maxRows)) {
+            throw new GuardError(
+              `limit ${limit} exceeds the export maximum of ${maxRows} rows`,
+              "maxExportRows",
+              maxRows,
+              limit
+            );
+          }
+          const { filterObj, projectionObj, sortObj } = this.parseFindArguments({ filter, projection, sort }, ejsonMode, dbName, collection);
+          this.queryHistory.record({ tool: "mongodb_export", ...scope, collection, filter: filterObj, sort: sortObj });
+          source = coll
+            .find(filterObj, { projection: projectionObj })
+            .sort(sortObj || {})
+            .skip(this.executionGuard.skip(skip))
+            .limit(limit ?? maxRows + 1)
+            .maxTimeMS(this.executionGuard.maxTimeMS(maxTimeMS));
+        }
+
+        const result = await this.exporter.exportCursor(source, collection, format, ejsonMode, (doc) =>
+          ACCESS_POLICY.redactDocument(dbName, collection, doc)
+        );
+        context.resultCount = result.rows;
+
+        return this.toolResult(
           {
-            name: "find_recent_records",
-            description: "Find recent records in a collection",
-            arguments: [
-              {
-                name: "collection",
-                description: "Name of the collection",
-                required: true,
-              },
-              {
-                name: "dateField",
-                description: "Name of the date field to sort by",
-                required: true,
-              },
-              {
-                name: "limit",
-                description: "Number of records to return",
-                required: false,
-              },
-            ],
+            collection,
+            ...result,
+            ...(result.truncated
+              ? { warning: "Export stopped at the server's row or size limit; narrow the query or split the export" }
+              : {}),
           },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_count": {
+        const { collection, filter, maxTimeMS } = args as ToolInput<"mongodb_count">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
+        const filterObj = parseOptionalEJSON(filter, "filter", {}, ejsonMode);
+        this.querySafety.validateFilter(filterObj);
+        ACCESS_POLICY.assertFilter(dbName, collection, filterObj);
+        this.queryHistory.record({ tool: "mongodb_count", ...scope, collection, filter: filterObj });
+        const count = await coll.countDocuments(filterObj, {
+          maxTimeMS: this.executionGuard.maxTimeMS(maxTimeMS),
+        });
+        context.resultCount = count;
+
+        return this.toolResult(
           {
-            name: "aggregate_summary",
-            description: "Create an aggregation summary for a collection",
-            arguments: [
-              {
-                name: "collection",
-                description: "Name of the collection",
-                required: true,
-              },
-              {
-                name: "groupBy",
-                description: "Field to group by",
-                required: true,
-              },
-              {
-                name: "metric",
-                description: "Field to calculate metrics on",
-                required: false,
-              },
-            ],
+            collection,
+            filter: filterObj,
+            count,
           },
-        ],
-      };
-    });
+          ejsonMode
+        );
+      }
 
-    // Get prompt
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+      case "mongodb_aggregate": {
+        const { collection, pipeline, cursor, maxTimeMS, allowDiskUse } = args as ToolInput<"mongodb_aggregate">;
 
-      switch (name) {
-        case "analyze_collection": {
-          const collection = args?.collection as string;
-          return {
-            messages: [
-              {
-                role: "user",
-                content: {
-                  type: "text",
-                  text: `Please analyze the MongoDB collection "${collection}". Provide insights on:
-1. Data distribution and patterns
-2. Common field values and their frequencies
-3. Data quality observations (missing fields, outliers, etc.)
-4. Recommendations for queries or further analysis
-
-Use the mongodb_query tool to explore the data.`,
-                },
-              },
-            ],
-          };
-        }
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
 
-        case "find_recent_records": {
-          const collection = args?.collection as string;
-          const dateField = args?.dateField as string;
-          const limitArg = args?.limit;
-          const limit = typeof limitArg === 'number' ? limitArg : (typeof limitArg === 'string' ? parseInt(limitArg, 10) : 10);
-          
-          return {
-            messages: [
-              {
-                role: "user",
-                content: {
-                  type: "text",
-                  text: `Find the ${limit} most recent records from the "${collection}" collection, sorted by "${dateField}" in descending order. Use the mongodb_query tool with appropriate parameters.`,
-                },
-              },
-            ],
-          };
+        let state: AggregateContinuation;
+        if (cursor) {
+          state = decodeContinuation(cursor, "aggregate", { ...scope, collection });
+          this.querySafety.validatePipeline(state.pipeline);
+          ACCESS_POLICY.assertPipeline(dbName, collection, state.pipeline);
+          state.pipeline = this.executionGuard.pipeline(state.pipeline);
+        } else {
+          if (!pipeline) {
+            throw new Error("pipeline is required unless cursor is given");
+          }
+          const pipelineObj = this.parsePipelineArgument(pipeline, ejsonMode, dbName, collection);
+          this.queryHistory.recordPipeline("mongodb_aggregate", { ...scope, collection }, pipelineObj);
+          state = { kind: "aggregate", ...scope, collection, pipeline: pipelineObj, offset: 0 };
         }
 
-        case "aggregate_summary": {
-          const collection = args?.collection as string;
-          const groupBy = args?.groupBy as string;
-          const metric = args?.metric as string;
-          
-          return {
-            messages: [
-              {
-                role: "user",
-                content: {
-                  type: "text",
-                  text: `Create an aggregation summary for the "${collection}" collection, grouped by "${groupBy}"${
-                    metric ? ` with calculations on "${metric}"` : ""
-                  }. Use the mongodb_aggregate tool to perform the analysis.`,
-                },
-              },
-            ],
-          };
-        }
+        const page = await collectWithinBudget(
+          coll.aggregate(
+            state.offset > 0 ? [...state.pipeline, { $skip: state.offset }] : state.pipeline,
+            this.executionGuard.aggregateOptions(maxTimeMS, allowDiskUse)
+          ),
+          RESPONSE_BUDGET,
+          ejsonMode,
+          (doc) => ACCESS_POLICY.redactDocument(dbName, collection, doc)
+        );
+        context.resultCount = page.documents.length;
+        const nextCursor = page.truncated
+          ? encodeContinuation({ ...state, offset: state.offset + page.documents.length })
+          : undefined;
 
-        default:
-          throw new Error(`Unknown prompt: ${name}`);
+        return this.toolResult(
+          {
+            collection,
+            pipeline: state.pipeline,
+            count: page.documents.length,
+            truncated: page.truncated,
+            ...(nextCursor ? { cursor: nextCursor } : {}),
+            results: page.documents,
+          },
+          ejsonMode
+        );
       }
-    });
 
-    // Tool handlers
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        await this.connectToMongoDB();
-      } catch (error) {
+      case "mongodb_sql": {
+        const { sql, execute, maxTimeMS, allowDiskUse } = args as ToolInput<"mongodb_sql">;
+
+        const { collection, kind, find, pipeline } = translateSql(sql);
+        const translation = { sql, collection, kind, ...(find ? { find } : {}), pipeline };
+        if (execute === false) {
+          return this.toolResult({ ...translation, executed: false }, ejsonMode);
+        }
+
+        // The pipeline form runs through mongodb_aggregate, with its safety, access and guard checks
+        const result = await this.callTool(
+          {
+            method: "tools/call",
+            params: {
+              name: "mongodb_aggregate",
+              arguments: {
+                collection,
+                pipeline: BSON.EJSON.stringify(pipeline, { relaxed: false }),
+                maxTimeMS,
+                allowDiskUse,
+                ejsonMode,
+                connection: profile.name,
+                database: dbName,
+              },
+            },
+          },
+          context
+        );
         return {
+          ...result,
           content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  error: "MongoDB Connection Failed",
-                  message: error instanceof Error ? error.message : String(error),
-                  uri: MONGODB_URI.replace(/\/\/.*@/, "//***@"),
-                  database: DATABASE_NAME,
-                  suggestion: "Please verify MongoDB is running and the connection settings are correct",
-                },
-                null,
-                2
-              ),
-            },
+            { type: "text", text: stringifyEJSON({ ...translation, executed: !result.isError }, ejsonMode) },
+            ...result.content,
           ],
-          isError: true,
+          ...(result.structuredContent
+            ? {
+                structuredContent: {
+                  ...BSON.EJSON.serialize({ ...translation, executed: true }, { relaxed: true }),
+                  ...result.structuredContent,
+                },
+              }
+            : {}),
         };
       }
 
-      try {
-        switch (request.params.name) {
-        case "mongodb_query": {
-          const { collection, filter, projection, sort, limit, skip } = request.params.arguments as {
-            collection: string;
-            filter?: string;
-            projection?: string;
-            sort?: string;
-            limit?: number;
-            skip?: number;
-          };
+      case "mongodb_distinct": {
+        const { collection, field, filter, maxTimeMS } = args as ToolInput<"mongodb_distinct">;
 
-          const coll = this.db!.collection(collection);
-          
-          const filterObj = filter ? JSON.parse(filter) : {};
-          const projectionObj = projection ? JSON.parse(projection) : undefined;
-          const sortObj = sort ? JSON.parse(sort) : undefined;
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
+        const filterObj = parseOptionalEJSON(filter, "filter", {}, ejsonMode);
+        this.querySafety.validateFilter(filterObj);
+        ACCESS_POLICY.assertFilter(dbName, collection, filterObj);
+        this.queryHistory.record({ tool: "mongodb_distinct", ...scope, collection, filter: filterObj });
+        const values = ACCESS_POLICY.redactDistinctValues(
+          dbName,
+          collection,
+          field,
+          this.executionGuard.distinctValues(
+            await coll.distinct(field, filterObj, { maxTimeMS: this.executionGuard.maxTimeMS(maxTimeMS) })
+          )
+        );
+        context.resultCount = values.length;
 
-          const results = await coll
-            .find(filterObj, { projection: projectionObj })
-            .sort(sortObj || {})
-            .skip(skip || 0)
-            .limit(limit || 100)
-            .toArray();
+        return this.toolResult(
+          {
+            collection,
+            field,
+            distinctValues: values,
+            count: values.length,
+          },
+          ejsonMode
+        );
+      }
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    collection,
-                    count: results.length,
-                    results,
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
+      case "mongodb_text_search": {
+        const { collection, query, filter, projection, language, caseSensitive, diacriticSensitive, limit, skip, maxTimeMS } =
+          args as ToolInput<"mongodb_text_search">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
+        const textIndex = textIndexOf(await coll.indexes());
+        if (!textIndex) throw missingTextIndex(collection);
+        ACCESS_POLICY.assertSearchFields(dbName, collection, textIndex.fields);
+
+        const { filterObj, projectionObj } = this.parseFindArguments({ filter, projection }, ejsonMode, dbName, collection);
+        this.queryHistory.record({ tool: "mongodb_text_search", ...scope, collection, filter: filterObj });
+        const search = textFilter(query, { language, caseSensitive, diacriticSensitive });
+        const terms = searchTerms(query);
+
+        const page = await collectWithinBudget(
+          coll
+            .find(Object.keys(filterObj).length > 0 ? { $and: [search, filterObj] } : search, {
+              projection: { ...projectionObj, [TEXT_SCORE_FIELD]: { $meta: "textScore" } },
+            })
+            .sort({ [TEXT_SCORE_FIELD]: { $meta: "textScore" } })
+            .skip(this.executionGuard.skip(skip))
+            .limit(this.executionGuard.limit(limit, 20))
+            .maxTimeMS(this.executionGuard.maxTimeMS(maxTimeMS)),
+          RESPONSE_BUDGET,
+          ejsonMode,
+          ({ [TEXT_SCORE_FIELD]: score, ...doc }) => {
+            const redacted = ACCESS_POLICY.redactDocument(dbName, collection, doc);
+            return {
+              score: Math.round(score * 1000) / 1000,
+              highlights: highlightMatches(redacted, textIndex, terms, caseSensitive),
+              document: redacted,
+            };
+          }
+        );
+        context.resultCount = page.documents.length;
+
+        return this.toolResult(
+          {
+            collection,
+            query,
+            textIndex: { name: textIndex.name, fields: textIndex.fields },
+            count: page.documents.length,
+            truncated: page.truncated,
+            results: page.documents,
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_geo_query": {
+        const { collection, field, near, polygon, box, filter, projection, sort, limit, skip, maxTimeMS } =
+          args as ToolInput<"mongodb_geo_query">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const shapes = (["near", "polygon", "box"] as const).filter((shape) => args[shape] !== undefined);
+        if (shapes.length !== 1) {
+          throw new Error("Pass exactly one of near, polygon or box");
+        }
+        if (near && sort) {
+          throw new Error("sort cannot be combined with near; near results are sorted by distance");
         }
+        const coll = db.collection(collection);
+        const geoField = resolveGeoField(collection, geoIndexFields(await coll.indexes()), field, near !== undefined);
 
-        case "mongodb_count": {
-          const { collection, filter } = request.params.arguments as {
-            collection: string;
-            filter?: string;
-          };
+        const { filterObj, projectionObj, sortObj } = this.parseFindArguments({ filter, projection, sort }, ejsonMode, dbName, collection);
+        this.queryHistory.record({ tool: "mongodb_geo_query", ...scope, collection, filter: filterObj, sort: sortObj });
+        const offset = this.executionGuard.skip(skip);
+        const maxResults = this.executionGuard.limit(limit, 100);
 
-          const coll = this.db!.collection(collection);
-          const filterObj = filter ? JSON.parse(filter) : {};
-          const count = await coll.countDocuments(filterObj);
+        let source: AbstractCursor<Document>;
+        if (near) {
+          const pipeline: Document[] = [
+            geoNearStage(geoField, near, filterObj, GEO_DISTANCE_FIELD),
+            ...(offset > 0 ? [{ $skip: offset }] : []),
+            { $limit: maxResults },
+          ];
+          if (projectionObj) {
+            // Keep the distance when the projection lists the fields to include
+            pipeline.push({
+              $project: isInclusionProjection(projectionObj)
+                ? { ...projectionObj, [GEO_DISTANCE_FIELD]: 1 }
+                : projectionObj,
+            });
+          }
+          source = coll.aggregate(pipeline, this.executionGuard.aggregateOptions(maxTimeMS));
+        } else {
+          const within = geoWithinFilter(geoField, polygon ? { polygon } : { box: box! });
+          source = coll
+            .find(Object.keys(filterObj).length > 0 ? { $and: [within, filterObj] } : within, {
+              projection: projectionObj,
+            })
+            .sort(sortObj || {})
+            .skip(offset)
+            .limit(maxResults)
+            .maxTimeMS(this.executionGuard.maxTimeMS(maxTimeMS));
+        }
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    collection,
-                    filter: filterObj,
-                    count,
-                  },
-                  null,
-                  2
-                ),
-              },
+        const page = await collectWithinBudget(
+          source,
+          RESPONSE_BUDGET,
+          ejsonMode,
+          ({ [GEO_DISTANCE_FIELD]: distance, ...doc }) => ({
+            ...(typeof distance === "number" ? { distanceMeters: Math.round(distance * 10) / 10 } : {}),
+            document: ACCESS_POLICY.redactDocument(dbName, collection, doc),
+          })
+        );
+        context.resultCount = page.documents.length;
+
+        return this.toolResult(
+          {
+            collection,
+            field: geoField,
+            shape: shapes[0],
+            count: page.documents.length,
+            truncated: page.truncated,
+            results: page.documents,
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_field_stats": {
+        const { collection, fields, filter, topK, buckets, sampleSize, maxTimeMS } = args as ToolInput<"mongodb_field_stats">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
+        const filterObj = parseOptionalEJSON(filter, "filter", {}, ejsonMode);
+        this.querySafety.validateFilter(filterObj);
+        ACCESS_POLICY.assertFilter(dbName, collection, filterObj);
+        this.queryHistory.record({ tool: "mongodb_field_stats", ...scope, collection, filter: filterObj });
+
+        const options = this.executionGuard.aggregateOptions(maxTimeMS);
+        const sampleLimit = Math.min(Math.max(1, sampleSize || FIELD_STATS_SAMPLE_SIZE), MAX_FIELD_STATS_SAMPLE_SIZE);
+        const matching = await coll.countDocuments(filterObj, { limit: sampleLimit + 1, maxTimeMS: options.maxTimeMS });
+        const sampled = matching > sampleLimit;
+
+        const [facets] = await coll
+          .aggregate(
+            [
+              { $match: filterObj },
+              ...fieldStatsPipeline(fields, {
+                topK: Math.min(Math.max(1, topK || 10), 100),
+                buckets: Math.min(Math.max(1, buckets || 10), 50),
+                sampleSize: sampled ? sampleLimit : undefined,
+              }),
             ],
-          };
+            options
+          )
+          .toArray();
+
+        // Types and cardinality say as much about redacted values as top values do, so only presence counts are kept
+        const stats = summarizeFieldStats(fields, facets ?? {}).map((fieldStats) =>
+          ACCESS_POLICY.redactsField(dbName, collection, fieldStats.field)
+            ? {
+                field: fieldStats.field,
+                documents: fieldStats.documents,
+                missing: fieldStats.missing,
+                nulls: fieldStats.nulls,
+                nullOrMissingRate: fieldStats.nullOrMissingRate,
+                redacted: true,
+              }
+            : fieldStats
+        );
+        context.resultCount = stats.length;
+
+        return this.toolResult(
+          {
+            collection,
+            filter: filterObj,
+            sampled,
+            documentsAnalyzed: stats[0]?.documents ?? 0,
+            fields: stats.map((fieldStats) => abbreviateValue(fieldStats, RESPONSE_BUDGET)),
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_explain": {
+        const {
+          collection,
+          filter,
+          projection,
+          sort,
+          limit,
+          skip,
+          pipeline,
+          verbosity,
+          includeRawPlan,
+          maxTimeMS,
+          allowDiskUse,
+        } = args as ToolInput<"mongodb_explain">;
+
+        const explainVerbosity = verbosity || "executionStats";
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const coll = db.collection(collection);
+
+        let explain: Document;
+        if (pipeline) {
+          const pipelineObj = this.parsePipelineArgument(pipeline, ejsonMode, dbName, collection);
+          explain = await coll
+            .aggregate(pipelineObj, this.executionGuard.aggregateOptions(maxTimeMS, allowDiskUse))
+            .explain(explainVerbosity);
+        } else {
+          const { filterObj, projectionObj, sortObj } = this.parseFindArguments({ filter, projection, sort }, ejsonMode, dbName, collection);
+          explain = await coll
+            .find(filterObj, { projection: projectionObj })
+            .sort(sortObj || {})
+            .skip(this.executionGuard.skip(skip))
+            .limit(this.executionGuard.limit(limit, 100))
+            .maxTimeMS(this.executionGuard.maxTimeMS(maxTimeMS))
+            .explain(explainVerbosity);
         }
 
-        case "mongodb_aggregate": {
-          const { collection, pipeline } = request.params.arguments as {
-            collection: string;
-            pipeline: string;
-          };
+        return this.toolResult(
+          {
+            collection,
+            mode: pipeline ? "aggregate" : "find",
+            verbosity: explainVerbosity,
+            summary: summarizeExplain(explain),
+            ...(includeRawPlan === false ? {} : { rawPlan: explain }),
+          },
+          ejsonMode
+        );
+      }
 
-          const coll = this.db!.collection(collection);
-          const pipelineObj = JSON.parse(pipeline);
-          const results = await coll.aggregate(pipelineObj).toArray();
+      case "mongodb_insert":
+      case "mongodb_update":
+      case "mongodb_delete":
+        return await this.writeTool(request.params.name, args, profile, db, context, ejsonMode);
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    collection,
-                    pipeline: pipelineObj,
-                    results,
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
+      case "mongodb_watch": {
+        const { collection, operationTypes, maxEvents, timeoutMS, resumeAfter } = args as ToolInput<"mongodb_watch">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const eventLimit = maxEvents || 10;
+        if (!Number.isInteger(eventLimit) || eventLimit <= 0 || eventLimit > 100) {
+          throw new GuardError("maxEvents must be an integer between 1 and 100", "maxEvents", 100, eventLimit);
         }
 
-        case "mongodb_distinct": {
-          const { collection, field, filter } = request.params.arguments as {
-            collection: string;
-            field: string;
-            filter?: string;
-          };
+        let result;
+        try {
+          result = await nextChangeEvents(db.collection(collection), {
+            operationTypes,
+            maxEvents: eventLimit,
+            timeoutMS: this.executionGuard.maxTimeMS(
+              timeoutMS ?? Math.min(10000, this.executionGuard.options.maxTimeMS)
+            ),
+            resumeAfter: resumeAfter ? parseEJSON(resumeAfter, "resumeAfter", ejsonMode) : undefined,
+          });
+        } catch (error) {
+          if (isChangeStreamUnsupported(error)) {
+            throw new Error(
+              "Change streams require a replica set or sharded cluster; for a local server, start mongod with --replSet rs0 and run rs.initiate()"
+            );
+          }
+          throw error;
+        }
+        context.resultCount = result.events.length;
 
-          const coll = this.db!.collection(collection);
-          const filterObj = filter ? JSON.parse(filter) : {};
-          const values = await coll.distinct(field, filterObj);
+        return this.toolResult(
+          {
+            collection,
+            count: result.events.length,
+            timedOut: result.timedOut,
+            resumeAfter: result.resumeToken,
+            events: result.events.map((event) =>
+              ACCESS_POLICY.redactChangeEvent(dbName, collection, event)
+            ),
+          },
+          ejsonMode
+        );
+      }
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    collection,
-                    field,
-                    distinctValues: values,
-                    count: values.length,
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
+      case "mongodb_list_indexes": {
+        const { collection } = args as ToolInput<"mongodb_list_indexes">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const indexes = await this.collectionIndexes(db, collection);
+
+        return this.toolResult(
+          {
+            collection,
+            count: indexes.length,
+            indexes,
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_suggest_indexes": {
+        const { collection, filter, sort, queries, useHistory } = args as ToolInput<"mongodb_suggest_indexes">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+
+        const specs: QuerySpec[] = [];
+        if (filter || sort) {
+          const { filterObj, sortObj } = this.parseFindArguments({ filter, sort }, ejsonMode, dbName, collection);
+          specs.push({ filter: filterObj, sort: sortObj });
         }
+        if (queries) {
+          const queryList = parseEJSON(queries, "queries", ejsonMode);
+          if (!Array.isArray(queryList)) {
+            throw new Error("queries must be an array of {filter, sort} objects");
+          }
+          queryList.forEach((query: QuerySpec, index: number) => {
+            this.querySafety.validateFilter(query?.filter, `queries[${index}].filter`);
+            this.querySafety.validateSort(query?.sort, `queries[${index}].sort`);
+            specs.push({ filter: query?.filter, sort: query?.sort });
+          });
+        }
+        const historyEntries =
+          (useHistory ?? specs.length === 0) ? this.queryHistory.recent({ ...scope, collection }) : [];
+        specs.push(...historyEntries.map((entry) => ({ filter: entry.filter, sort: entry.sort })));
 
-        case "mongodb_list_databases": {
-          const adminDb = this.client!.db().admin();
-          const { databases } = await adminDb.listDatabases();
+        const indexes = await this.collectionIndexes(db, collection);
+        const advice = adviseIndexes(collection, specs, indexes);
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    currentDatabase: DATABASE_NAME,
-                    connectionUri: MONGODB_URI.replace(/\/\/.*@/, "//***@"), // Hide credentials
-                    databases: databases.map(db => ({
-                      name: db.name,
-                      sizeOnDisk: db.sizeOnDisk,
-                      empty: db.empty,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
+        return this.toolResult(
+          {
+            collection,
+            queriesAnalyzed: specs.length,
+            historyQueriesUsed: historyEntries.length,
+            ...advice,
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_infer_schema": {
+        const { collection, sampleSize, format } = args as ToolInput<"mongodb_infer_schema">;
+
+        ACCESS_POLICY.assertCollection(dbName, collection);
+        const size = Math.min(Math.max(sampleSize || SCHEMA_SAMPLE_SIZE, 1), MAX_SCHEMA_SAMPLE_SIZE);
+        const analysis = await this.inferCollectionSchema(db, collection, size);
+        const outputFormat = format || "summary";
+
+        return this.toolResult(
+          {
+            collection,
+            documentsSampled: analysis.documentsSampled,
+            ...(outputFormat !== "jsonSchema" ? { fields: analysis.fields } : {}),
+            ...(outputFormat !== "summary" ? { jsonSchema: { $jsonSchema: toJSONSchema(analysis) } } : {}),
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_discover_relationships": {
+        const { collections, sampleSize, minMatchRate, maxTimeMS } = args as ToolInput<"mongodb_discover_relationships">;
+
+        ACCESS_POLICY.assertDatabase(dbName);
+        let names: string[];
+        if (collections !== undefined) {
+          collections.forEach((name) => ACCESS_POLICY.assertCollection(dbName, name));
+          names = [...new Set(collections)];
+        } else {
+          names = (await db.listCollections({}, { nameOnly: true }).toArray())
+            .map((col) => col.name)
+            .filter((name) => !name.startsWith("system.") && ACCESS_POLICY.canReadCollection(dbName, name))
+            .sort();
+        }
+        if (names.length > MAX_RELATIONSHIP_COLLECTIONS) {
+          throw new Error(
+            `${names.length} collections to scan; pass at most ${MAX_RELATIONSHIP_COLLECTIONS} names in collections`
+          );
         }
 
-        case "mongodb_list_collections": {
-          const { database } = request.params.arguments as {
-            database?: string;
-          };
+        const relationships = await discoverRelationships(
+          db,
+          names,
+          {
+            sampleSize: Math.min(Math.max(sampleSize || SCHEMA_SAMPLE_SIZE, 1), MAX_SCHEMA_SAMPLE_SIZE),
+            maxValues: 20,
+            minMatchRate: Math.min(Math.max(minMatchRate ?? 0.5, 0), 1),
+            maxTimeMS: this.executionGuard.aggregateOptions(maxTimeMS).maxTimeMS,
+          },
+          (collection, documents) => ACCESS_POLICY.redactDocuments(dbName, collection, documents)
+        );
+        context.resultCount = relationships.length;
 
-          const targetDb = database ? this.client!.db(database) : this.db!;
-          const collections = await targetDb.listCollections().toArray();
-          
-          // Get detailed stats for each collection
-          const collectionStats = await Promise.all(
-            collections.map(async (col) => {
-              try {
-                const stats = await targetDb.command({ collStats: col.name });
-                return {
-                  name: col.name,
-                  type: col.type,
-                  count: stats.count || 0,
-                  size: stats.size || 0,
-                  avgObjSize: stats.avgObjSize || 0,
-                };
-              } catch (error) {
-                return {
-                  name: col.name,
-                  type: col.type,
-                  error: "Could not retrieve stats",
-                };
-              }
-            })
+        return this.toolResult(
+          {
+            database: dbName,
+            collectionsScanned: names,
+            relationships,
+            mermaid: mermaidDiagram(relationships),
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_list_databases": {
+        const adminDb = client.db().admin();
+        const { databases } = await adminDb.listDatabases();
+
+        return this.toolResult(
+          {
+            connection: profile.name,
+            currentDatabase: dbName,
+            connectionUri: redactUri(profile.uri), // Hide credentials
+            databases: databases.filter(db => ACCESS_POLICY.canReadDatabase(db.name)).map(db => ({
+              name: db.name,
+              sizeOnDisk: db.sizeOnDisk,
+              empty: db.empty,
+            })),
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_list_collections": {
+        ACCESS_POLICY.assertDatabase(dbName);
+        const collections = (await db.listCollections().toArray()).filter((col) =>
+          ACCESS_POLICY.canReadCollection(dbName, col.name)
+        );
+        
+        // Get detailed stats for each collection
+        const collectionStats = await Promise.all(
+          collections.map(async (col) => {
+            try {
+              const stats = await db.command({ collStats: col.name });
+              return {
+                name: col.name,
+                type: col.type,
+                count: stats.count || 0,
+                size: stats.size || 0,
+                avgObjSize: stats.avgObjSize || 0,
+              };
+            } catch (error) {
+              return {
+                name: col.name,
+                type: col.type,
+                error: "Could not retrieve stats",
+              };
+            }
+          })
+        );
+
+        return this.toolResult(
+          {
+            connection: profile.name,
+            database: dbName,
+            totalCollections: collections.length,
+            collections: collectionStats,
+          },
+          ejsonMode
+        );
+      }
+
+      case "mongodb_verify_connection": {
+        ACCESS_POLICY.assertDatabase(dbName);
+        const serverStatus = await db.admin().serverStatus();
+        const dbStats = await db.stats();
+
+        return this.toolResult(
+          {
+            connected: true,
+            connection: profile.name,
+            connectionUri: redactUri(profile.uri),
+            health: this.connections.healthOf(profile.name),
+            currentDatabase: dbName,
+            serverInfo: {
+              version: serverStatus.version,
+              uptime: serverStatus.uptime,
+              host: serverStatus.host,
+            },
+            databaseStats: {
+              collections: dbStats.collections,
+              dataSize: dbStats.dataSize,
+              storageSize: dbStats.storageSize,
+              indexes: dbStats.indexes,
+            },
+          },
+          ejsonMode
+        );
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${request.params.name}`);
+      }
+    } catch (error) {
+      context.error = this.errorSummary(error);
+
+      const retryIn = this.connections.recordFailure(profile.name, error, attempt);
+      if (retryIn !== undefined && !WRITE_TOOLS.includes(request.params.name)) {
+        await new Promise((resolve) => setTimeout(resolve, retryIn));
+        return this.callTool(request, context, attempt + 1);
+      }
+
+      return this.errorResult(request.params.name, error);
+    }
+  }
+
+  /**
+   * Insert, update and delete. Without a confirm token the write is previewed and a
+   * token bound to the exact arguments is issued; with it, the affected documents are
+   * fetched again (still capped), saved as an undo snapshot, and the write is limited
+   * to those _ids.
+   */
+  private async writeTool(
+    tool: string,
+    args: Record<string, unknown>,
+    profile: ConnectionProfile,
+    db: Db,
+    context: ToolCallContext,
+    ejsonMode: EJSONMode
+  ): Promise<CallToolResult> {
+    if (!profile.allowWrites) {
+      throw new AccessDeniedError(`Writes are not enabled for connection profile "${profile.name}"`, profile.name);
+    }
+
+    const { collection, documents, filter, update, multi, confirm } = args as {
+      collection: string;
+      documents?: string;
+      filter?: string;
+      update?: string;
+      multi?: boolean;
+      confirm?: string;
+    };
+    const dbName = db.databaseName;
+    ACCESS_POLICY.assertCollection(dbName, collection);
+    const coll = db.collection(collection);
+    const { maxDocuments, previewSampleSize } = this.writeOptions;
+    const redact = (doc: Document) => ACCESS_POLICY.redactDocument(dbName, collection, doc);
+
+    const target = { connection: profile.name, database: dbName, collection };
+    const owner = this.undoOwner(context);
+    let operation: Document;
+    let toInsert: Document[] = [];
+    let filterObj: Document = {};
+    let updateObj: Document | Document[] = {};
+    switch (tool) {
+      case "mongodb_insert": {
+        const parsed = parseEJSON(documents ?? "", "documents", ejsonMode);
+        toInsert = Array.isArray(parsed) ? parsed : [parsed];
+        if (toInsert.length === 0 || toInsert.some((doc) => doc === null || typeof doc !== "object" || Array.isArray(doc))) {
+          throw new Error("documents must be a document or a non-empty array of documents");
+        }
+        if (toInsert.length > maxDocuments) {
+          throw new GuardError(
+            `Inserting ${toInsert.length} documents exceeds the write maximum of ${maxDocuments}`,
+            "maxWriteDocuments",
+            maxDocuments,
+            toInsert.length
           );
+        }
+        operation = { tool, ...target, documents: toInsert };
+        break;
+      }
+      case "mongodb_update":
+        filterObj = parseEJSON(filter ?? "", "filter", ejsonMode);
+        this.querySafety.validateFilter(filterObj);
+        ACCESS_POLICY.assertFilter(dbName, collection, filterObj);
+        updateObj = parseEJSON(update ?? "", "update", ejsonMode);
+        this.querySafety.validateUpdate(updateObj);
+        // The preview runs the update as an aggregation, and either could copy redacted fields
+        ACCESS_POLICY.assertUpdate(dbName, collection, updateObj);
+        operation = { tool, ...target, filter: filterObj, update: updateObj, multi: Boolean(multi) };
+        break;
+      default:
+        filterObj = parseEJSON(filter ?? "", "filter", ejsonMode);
+        this.querySafety.validateFilter(filterObj);
+        ACCESS_POLICY.assertFilter(dbName, collection, filterObj);
+        operation = { tool, ...target, filter: filterObj, multi: Boolean(multi) };
+    }
 
+    const affected =
+      tool === "mongodb_insert"
+        ? toInsert
+        : await affectedDocuments(coll, filterObj, Boolean(multi), maxDocuments, this.executionGuard.maxTimeMS());
+    const fingerprint = ConfirmationTokens.fingerprint(operation);
+    const session = context.sessionId ?? "stdio";
+
+    if (!confirm) {
+      const sample = affected.slice(0, previewSampleSize);
+      const preview: WritePreview = {
+        kind: tool === "mongodb_insert" ? "insert" : tool === "mongodb_update" ? "update" : "delete",
+        affected: affected.length,
+        samples: [],
+      };
+
+      if (tool === "mongodb_insert") {
+        preview.samples = sample.map((doc) => ({ _id: doc._id, after: redact(doc) }));
+      } else if (tool === "mongodb_delete") {
+        preview.samples = sample.map((doc) => ({ _id: doc._id, before: redact(doc) }));
+      } else {
+        const pipeline = updatePreviewPipeline(updateObj);
+        const after = pipeline
+          ? await coll
+              .aggregate([{ $match: { _id: { $in: sample.map((doc) => doc._id) } } }, ...pipeline], {
+                maxTimeMS: this.executionGuard.maxTimeMS(),
+              })
+              .toArray()
+          : [];
+        const afterById = new Map(after.map((doc) => [stringifyEJSON(doc._id, "canonical"), doc]));
+        preview.samples = sample.map((doc) => {
+          const changed = afterById.get(stringifyEJSON(doc._id, "canonical"));
           return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    database: database || DATABASE_NAME,
-                    totalCollections: collections.length,
-                    collections: collectionStats,
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
+            _id: doc._id,
+            before: redact(doc),
+            ...(changed ? { after: redact(changed), changes: diffDocuments(redact(doc), redact(changed)) } : {}),
           };
+        });
+        if (!pipeline) {
+          preview.note =
+            "The after state cannot be previewed for these update operators or positional paths; only the matched documents are shown";
         }
+      }
 
-        case "mongodb_verify_connection": {
-          const serverStatus = await this.db!.admin().serverStatus();
-          const dbStats = await this.db!.stats();
+      context.resultCount = 0;
+      const confirmation = affected.length > 0 ? this.confirmations.issue(fingerprint, session) : undefined;
+      return this.toolResult(
+        {
+          dryRun: true,
+          ...target,
+          ...preview,
+          ...(confirmation
+            ? {
+                confirm: confirmation.token,
+                expiresAt: confirmation.expiresAt,
+                next: `Call ${tool} again with the same arguments and confirm set to this token to execute`,
+              }
+            : { next: "Nothing to do: no documents match" }),
+        },
+        ejsonMode
+      );
+    }
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    connected: true,
-                    connectionUri: MONGODB_URI.replace(/\/\/.*@/, "//***@"),
-                    currentDatabase: DATABASE_NAME,
-                    serverInfo: {
-                      version: serverStatus.version,
-                      uptime: serverStatus.uptime,
-                      host: serverStatus.host,
-                    },
-                    databaseStats: {
-                      collections: dbStats.collections,
-                      dataSize: dbStats.dataSize,
-                      storageSize: dbStats.storageSize,
-                      indexes: dbStats.indexes,
-                    },
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
+    this.confirmations.consume(confirm, fingerprint, session);
+    const ids = affected.map((doc) => doc._id);
+    const scoped = { $and: [filterObj, { _id: { $in: ids } }] };
+    let result: Document;
+    let snapshotId: string;
+
+    switch (tool) {
+      case "mongodb_insert": {
+        const inserted = await coll.insertMany(toInsert);
+        const insertedIds = Object.values(inserted.insertedIds);
+        snapshotId = (await this.undoStore.save({ kind: "insert", owner, ...target, insertedIds })).id;
+        result = { insertedCount: inserted.insertedCount, insertedIds };
+        break;
+      }
+      case "mongodb_update": {
+        snapshotId = (await this.undoStore.save({ kind: "update", owner, ...target, before: affected })).id;
+        const updated = multi ? await coll.updateMany(scoped, updateObj) : await coll.updateOne(scoped, updateObj);
+        result = { matchedCount: updated.matchedCount, modifiedCount: updated.modifiedCount };
+        break;
+      }
+      default: {
+        snapshotId = (await this.undoStore.save({ kind: "delete", owner, ...target, before: affected })).id;
+        const deleted = await coll.deleteMany(scoped);
+        result = { deletedCount: deleted.deletedCount };
+      }
+    }
+
+    context.resultCount = affected.length;
+    return this.toolResult({ executed: true, ...target, ...result, undoId: snapshotId }, ejsonMode);
+  }
+
+  // List undo snapshots, or preview and then apply one (on the connection that made the write)
+  private async undoTool(args: Record<string, unknown>, context: ToolCallContext): Promise<CallToolResult> {
+    const { undoId, confirm } = args as { undoId?: string; confirm?: string };
+    if (!undoId) {
+      const snapshots = await this.undoStore.list(this.undoOwner(context));
+      context.resultCount = snapshots.length;
+      return this.toolResult({ snapshots }, EJSON_MODE);
+    }
+
+    const snapshot = await this.undoStore.load(undoId, this.undoOwner(context));
+    const profile = this.connections.profile(snapshot.connection);
+    context.connection = profile.name;
+    context.database = snapshot.database;
+    if (!profile.allowWrites) {
+      throw new AccessDeniedError(`Writes are not enabled for connection profile "${profile.name}"`, profile.name);
+    }
+    ACCESS_POLICY.assertCollection(snapshot.database, snapshot.collection);
+    if (snapshot.undoneAt) {
+      throw new Error(`Undo snapshot "${undoId}" was already applied at ${snapshot.undoneAt}`);
+    }
+
+    const count = snapshot.kind === "insert" ? snapshot.insertedIds?.length ?? 0 : snapshot.before?.length ?? 0;
+    const action = snapshot.kind === "insert" ? "delete the inserted documents" : "restore the saved documents";
+    const fingerprint = ConfirmationTokens.fingerprint({ tool: "mongodb_undo", undoId });
+    const session = context.sessionId ?? "stdio";
+
+    if (!confirm) {
+      const confirmation = this.confirmations.issue(fingerprint, session);
+      return this.toolResult(
+        {
+          dryRun: true,
+          undoId,
+          kind: snapshot.kind,
+          connection: snapshot.connection,
+          namespace: `${snapshot.database}.${snapshot.collection}`,
+          documents: count,
+          action,
+          confirm: confirmation.token,
+          expiresAt: confirmation.expiresAt,
+        },
+        EJSON_MODE
+      );
+    }
+
+    this.confirmations.consume(confirm, fingerprint, session);
+    const client = await this.connections.client(profile.name);
+    const coll = client.db(snapshot.database).collection(snapshot.collection);
+    let reverted: number;
+    if (snapshot.kind === "insert") {
+      reverted = (await coll.deleteMany({ _id: { $in: snapshot.insertedIds ?? [] } } as Document)).deletedCount;
+    } else {
+      const restored = await coll.bulkWrite(
+        (snapshot.before ?? []).map((doc) => ({
+          replaceOne: { filter: { _id: doc._id }, replacement: doc, upsert: true },
+        }))
+      );
+      reverted = restored.matchedCount + restored.upsertedCount;
+    }
+    await this.undoStore.markUndone(snapshot);
+
+    context.resultCount = reverted;
+    return this.toolResult({ executed: true, undoId, action, documents: reverted }, EJSON_MODE);
+  }
+
+  // Undo snapshots belong to the authenticated client, so they survive reconnects, or else to the session
+  private undoOwner(context: ToolCallContext): string {
+    if (context.clientId) return `client:${context.clientId}`;
+    return context.sessionId ? `session:${context.sessionId}` : "stdio";
+  }
+
+  /**
+   * Turn a saved query call into the equivalent mongodb_query or mongodb_aggregate call,
+   * so it gets the same safety checks, guards, redaction and result formatting.
+   * Bound values travel as canonical EJSON to keep their BSON types.
+   */
+  private savedQueryRequest(query: SavedQuery, args: Record<string, unknown>): CallToolRequest {
+    const target = {
+      collection: query.collection,
+      ...(query.connection ? { connection: query.connection } : {}),
+      ...(query.database ? { database: query.database } : {}),
+    };
+    const ejson = (value: unknown) => BSON.EJSON.stringify(value, { relaxed: false });
+
+    let toolArgs: Record<string, unknown>;
+    if (typeof args.cursor === "string" && args.cursor) {
+      toolArgs = { ...target, cursor: args.cursor };
+    } else if (query.find) {
+      const find = bindParameters(query, query.find, args);
+      toolArgs = {
+        ...target,
+        ...(find.filter ? { filter: ejson(find.filter) } : {}),
+        ...(find.projection ? { projection: ejson(find.projection) } : {}),
+        ...(find.sort ? { sort: ejson(find.sort) } : {}),
+        ...(find.limit !== undefined ? { limit: find.limit } : {}),
+      };
+    } else {
+      toolArgs = { ...target, pipeline: ejson(bindParameters(query, query.aggregate, args)) };
+    }
+
+    return {
+      method: "tools/call",
+      params: { name: query.find ? "mongodb_query" : "mongodb_aggregate", arguments: toolArgs },
+    };
+  }
+
+  /**
+   * A successful result: EJSON text in the call's mode, and the same payload as
+   * structuredContent for clients that read the output schema. structuredContent is
+   * always relaxed EJSON so counts and flags stay plain JSON numbers and booleans.
+   */
+  private toolResult(payload: Document, ejsonMode: EJSONMode): CallToolResult {
+    return {
+      content: [{ type: "text", text: stringifyEJSON(payload, ejsonMode) }],
+      structuredContent: BSON.EJSON.serialize(payload, { relaxed: true }),
+    };
+  }
+
+  private errorSummary(error: unknown): { type: string; code: ToolErrorCode; message: string } {
+    const { code } = classifyError(error);
+    return error instanceof Error
+      ? { type: error.name, code, message: error.message }
+      : { type: "Error", code, message: String(error) };
+  }
+
+  /**
+   * Error result: the classified code, title and hint plus any details. The stack
+   * trace is only included in debug mode (--debug or MONGODB_DEBUG).
+   */
+  private errorResult(tool: string, error: unknown, classified = classifyError(error)): CallToolResult {
+    const { code, error: title, message, hint, details } = classified;
+    const payload = {
+      error: title,
+      code,
+      tool,
+      message,
+      ...(hint ? { hint } : {}),
+      ...details,
+      ...(DEBUG && error instanceof Error ? { stack: error.stack } : {}),
+    };
+    return { content: [{ type: "text", text: JSON.stringify(payload, null, 2) }], isError: true };
+  }
+
+  // Build the audit record for a call; filters, pipelines and updates are re-parsed from the raw arguments
+  private auditRecord(
+    request: CallToolRequest,
+    context: ToolCallContext,
+    durationMs: number,
+    identity: { clientId?: string; clientName?: string }
+  ): AuditRecord {
+    const args = request.params.arguments ?? {};
+    const normalized = (argument: string) => {
+      const text = args[argument];
+      if (typeof text !== "string" || text.length === 0) return undefined;
+      try {
+        return this.auditLog.normalizeQuery(parseEJSON(text, argument));
+      } catch {
+        return { unparsable: true, length: text.length };
+      }
+    };
+
+    return {
+      timestamp: new Date().toISOString(),
+      sessionId: context.sessionId,
+      ...identity,
+      tool: request.params.name,
+      connection: context.connection,
+      database: context.database,
+      collection: typeof args.collection === "string" ? args.collection : undefined,
+      filter: normalized("filter"),
+      pipeline: normalized("pipeline"),
+      update: normalized("update"),
+      sql: typeof args.sql === "string" ? this.auditLog.normalizeSql(args.sql) : undefined,
+      write: this.auditWriteSummary(request.params.name, args),
+      resultCount: context.resultCount,
+      durationMs,
+      error: context.error,
+    };
+  }
+
+  private auditWriteSummary(tool: string, args: Record<string, unknown>): AuditRecord["write"] {
+    const confirmed = typeof args.confirm === "string" && args.confirm.length > 0;
+    if (tool === "mongodb_undo") {
+      return { ...(typeof args.undoId === "string" ? { undoId: args.undoId } : {}), confirmed };
+    }
+    if (!WRITE_TOOLS.includes(tool)) return undefined;
+
+    let documents: number | undefined;
+    if (typeof args.documents === "string") {
+      try {
+        const parsed = parseEJSON(args.documents, "documents");
+        documents = Array.isArray(parsed) ? parsed.length : 1;
+      } catch {
+        documents = undefined;
+      }
+    }
+    return {
+      ...(documents !== undefined ? { documents } : {}),
+      ...(typeof args.multi === "boolean" ? { multi: args.multi } : {}),
+      confirmed,
+    };
+  }
+
+  private async readResource(target: ResourceTarget): Promise<unknown> {
+    const client = await this.connections.client(target.profile);
+    const db = client.db(target.database);
+
+    if (target.kind === "views") {
+      ACCESS_POLICY.assertDatabase(target.database);
+      const views = await db.listCollections({ type: "view" }, { nameOnly: false }).toArray();
+      return {
+        database: target.database,
+        views: views
+          .filter((view) => ACCESS_POLICY.canReadCollection(target.database, view.name))
+          .map((view) => ({
+            name: view.name,
+            viewOn: view.options?.viewOn,
+            pipeline: view.options?.pipeline ?? [],
+          })),
+      };
+    }
+
+    const { database: dbName, collection: collectionName } = target;
+    ACCESS_POLICY.assertCollection(dbName, collectionName);
+    const collection = db.collection(collectionName);
+
+    switch (target.kind) {
+      case "documents": {
+        const document = await collection
+          .find({ _id: { $in: documentIdCandidates(target.id!) } } as Document)
+          .limit(1)
+          .maxTimeMS(this.executionGuard.maxTimeMS())
+          .next();
+        if (!document) {
+          throw new Error(`No document with _id ${target.id} in ${dbName}.${collectionName}`);
         }
+        return ACCESS_POLICY.redactDocument(dbName, collectionName, document);
+      }
+
+      case "indexes":
+        return { collection: collectionName, indexes: await this.collectionIndexes(db, collectionName) };
 
-        default:
-          throw new Error(`Unknown tool: ${request.params.name}`);
+      case "schema": {
+        const analysis = await this.inferCollectionSchema(db, collectionName, SCHEMA_SAMPLE_SIZE);
+        return {
+          collection: collectionName,
+          ...analysis,
+          jsonSchema: { $jsonSchema: toJSONSchema(analysis) },
+        };
+      }
+
+      case "validator": {
+        const [info] = await db.listCollections({ name: collectionName }, { nameOnly: false }).toArray();
+        if (!info) {
+          throw new Error(`Collection ${dbName}.${collectionName} does not exist`);
         }
-      } catch (error) {
+        const options = info.options ?? {};
         return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  error: "Tool Execution Failed",
-                  tool: request.params.name,
-                  message: error instanceof Error ? error.message : String(error),
-                  stack: error instanceof Error ? error.stack : undefined,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-          isError: true,
+          collection: collectionName,
+          validator: options.validator ?? null,
+          validationLevel: options.validationLevel ?? (options.validator ? "strict" : undefined),
+          validationAction: options.validationAction ?? (options.validator ? "error" : undefined),
         };
       }
-    });
+
+      default: {
+        // Get collection stats
+        const stats = await db.command({ collStats: collectionName });
+
+        // Get sample documents (up to 5)
+        const sampleDocs = ACCESS_POLICY.redactDocuments(
+          dbName,
+          collectionName,
+          await collection.find({}).limit(5).maxTimeMS(this.executionGuard.maxTimeMS()).toArray()
+        );
+
+        // Infer schema from a random sample
+        const schema = await this.inferCollectionSchema(db, collectionName, SCHEMA_SAMPLE_SIZE);
+
+        return {
+          collection: collectionName,
+          stats: {
+            count: stats.count,
+            size: stats.size,
+            avgObjSize: stats.avgObjSize,
+          },
+          schema: schema.fields,
+          sampleDocuments: sampleDocs,
+        };
+      }
+    }
   }
 
-  private inferSchema(documents: any[]): Record<string, any> {
-    if (documents.length === 0) return {};
+  // Parse and validate the filter/projection/sort arguments shared by find-based tools
+  private parseFindArguments(
+    args: { filter?: string; projection?: string; sort?: string },
+    ejsonMode: EJSONMode,
+    dbName: string,
+    collection: string
+  ) {
+    const filterObj = parseOptionalEJSON(args.filter, "filter", {}, ejsonMode);
+    const projectionObj = parseOptionalEJSON(args.projection, "projection", undefined, ejsonMode);
+    const sortObj = parseOptionalEJSON(args.sort, "sort", undefined, ejsonMode);
 
-    const schema: Record<string, any> = {};
+    this.querySafety.validateFilter(filterObj);
+    this.querySafety.validateProjection(projectionObj);
+    this.querySafety.validateSort(sortObj);
+    ACCESS_POLICY.assertFilter(dbName, collection, filterObj);
+    ACCESS_POLICY.assertProjection(dbName, collection, projectionObj);
 
-    documents.forEach((doc) => {
-      Object.keys(doc).forEach((key) => {
-        const value = doc[key];
-        const type = Array.isArray(value)
-          ? "array"
-          : value === null
-          ? "null"
-          : typeof value === "object"
-          ? "object"
-          : typeof value;
+    return { filterObj, projectionObj, sortObj };
+  }
 
-        if (!schema[key]) {
-          schema[key] = { type, examples: [] };
-        }
+  // Parse a pipeline argument, check it against the operator and access policies and apply pipeline guards
+  private parsePipelineArgument(
+    pipeline: string,
+    ejsonMode: EJSONMode,
+    dbName: string,
+    collection: string,
+    autoLimit?: number
+  ): Document[] {
+    const pipelineObj = parseEJSON(pipeline, "pipeline", ejsonMode);
+    this.querySafety.validatePipeline(pipelineObj);
+    ACCESS_POLICY.assertPipeline(dbName, collection, pipelineObj);
+    return this.executionGuard.pipeline(pipelineObj, autoLimit);
+  }
 
-        if (schema[key].examples.length < 3 && value !== null && value !== undefined) {
-          schema[key].examples.push(value);
-        }
-      });
+  /**
+   * Refuse to run against a collection that does not exist, suggesting readable
+   * collections with a similar name. Denied collections are left to the access
+   * check so that their existence is not revealed.
+   */
+  private async assertCollectionExists(profileName: string, db: Db, dbName: string, collection: string) {
+    const namespace = `${profileName}/${dbName}.${collection}`;
+    if (this.knownCollections.has(namespace) || !ACCESS_POLICY.canReadCollection(dbName, collection)) return;
+
+    let names: string[];
+    try {
+      names = (await db.listCollections({}, { nameOnly: true, authorizedCollections: true }).toArray()).map(
+        (col) => col.name
+      );
+    } catch {
+      // Without the listCollections privilege the tool runs and reports its own errors
+      return;
+    }
+    if (names.includes(collection)) {
+      this.knownCollections.add(namespace);
+      return;
+    }
+    const readable = names.filter((name) => ACCESS_POLICY.canReadCollection(dbName, name));
+    throw new UnknownCollectionError(dbName, collection, similarNames(collection, readable));
+  }
+
+  // Index definitions merged with collStats sizes and $indexStats usage counts
+  private async collectionIndexes(db: Db, collectionName: string) {
+    const collection = db.collection(collectionName);
+    const indexes = await collection.indexes();
+
+    let indexSizes: Record<string, number> = {};
+    try {
+      const stats = await db.command({ collStats: collectionName });
+      indexSizes = stats.indexSizes ?? {};
+    } catch {
+      // collStats is unavailable on views and without the required privileges
+    }
+
+    const usage = new Map<string, { ops: number; since: Date }>();
+    try {
+      const indexStats = await collection.aggregate([{ $indexStats: {} }]).toArray();
+      for (const stat of indexStats) {
+        usage.set(stat.name, { ops: Number(stat.accesses?.ops ?? 0), since: stat.accesses?.since });
+      }
+    } catch {
+      // $indexStats requires the indexStats privilege
+    }
+
+    return indexes.map((index) => {
+      const name = index.name ?? "";
+      const stats = usage.get(name);
+      const details: ExistingIndex & Record<string, unknown> = {
+        name,
+        key: index.key,
+        ...(index.unique ? { unique: true } : {}),
+        ...(index.sparse ? { sparse: true } : {}),
+        ...(index.partialFilterExpression ? { partialFilterExpression: index.partialFilterExpression } : {}),
+        ...(index.expireAfterSeconds !== undefined ? { expireAfterSeconds: index.expireAfterSeconds } : {}),
+        ...(index.hidden ? { hidden: true } : {}),
+        ...(index.collation ? { collation: index.collation } : {}),
+        size: indexSizes[name],
+        ...(stats ? { accesses: stats.ops, accessesSince: stats.since } : {}),
+      };
+      return details;
     });
+  }
+
+  // Size, schema, indexes and a couple of samples for schema-aware prompts
+  private async collectionSnapshot(
+    connection: string | undefined,
+    database: string | undefined,
+    collectionName: string
+  ): Promise<CollectionSnapshot> {
+    const profile = this.connections.profile(connection);
+    const dbName = database || profile.database;
+    ACCESS_POLICY.assertCollection(dbName, collectionName);
+
+    const client = await this.connections.client(profile.name);
+    const db = client.db(dbName);
+    const collection = db.collection(collectionName);
+    const maxTimeMS = this.executionGuard.maxTimeMS();
+
+    const [documentCount, schema, indexes, samples] = await Promise.all([
+      collection.estimatedDocumentCount({ maxTimeMS }),
+      this.inferCollectionSchema(db, collectionName, SCHEMA_SAMPLE_SIZE),
+      collection.indexes(),
+      collection.find({}).limit(2).maxTimeMS(maxTimeMS).toArray(),
+    ]);
 
-    return schema;
+    return {
+      profile: profile.name,
+      database: dbName,
+      collection: collectionName,
+      documentCount,
+      schema,
+      indexes: indexes.map((index) => ({ name: index.name ?? "", key: index.key })),
+      samples: ACCESS_POLICY.redactDocuments(dbName, collectionName, samples).map(
+        (doc) => abbreviateValue(doc, RESPONSE_BUDGET) as Document
+      ),
+    };
+  }
+
+  // Sample with $sample and analyze; redaction runs first so examples never leak masked fields
+  private async inferCollectionSchema(db: Db, collectionName: string, sampleSize: number): Promise<SchemaAnalysis> {
+    const collection = db.collection(collectionName);
+    const documents = ACCESS_POLICY.redactDocuments(
+      db.databaseName,
+      collectionName,
+      await sampleDocuments(collection, sampleSize, this.executionGuard.maxTimeMS())
+    );
+    return analyzeDocuments(documents);
   }
 
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    const server = this.createServer();
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
+      void this.shutdown("transport closed");
+    };
+    // The stdio transport does not notice its client going away
+    process.stdin.on("end", () => void this.shutdown("stdin closed"));
+    await server.connect(transport);
     console.error("MongoDB MCP server running on stdio");
   }
+
+  async runHttp(options: { host: string; port: number; insecureNoAuth: boolean; allowedHosts?: string[] }) {
+    const tokens = bearerTokensFromEnv();
+    if (tokens.length === 0 && !options.insecureNoAuth) {
+      throw new Error(
+        "HTTP transport requires bearer tokens (set MCP_AUTH_TOKENS or MCP_AUTH_TOKENS_FILE, or pass --insecure-no-auth)"
+      );
+    }
+    if (tokens.length === 0) {
+      console.error("WARNING: serving HTTP without authentication");
+    }
+
+    this.httpServer = await startHttpServer(() => this.createServer(), {
+      host: options.host,
+      port: options.port,
+      tokens,
+      allowedHosts: options.allowedHosts,
+      sessionIdleTimeoutMs: positiveIntFromEnv(process.env, "MCP_SESSION_IDLE_TIMEOUT_MS", 30 * 60 * 1000),
+      onSessionClosed: (sessionId) => this.auditLog.endSession(sessionId),
+    });
+  }
 }
 
 // Start the server
 const server = new MongoDBMCPServer();
-server.run().catch(console.error);
+(CLI_OPTIONS.transport === "http" ? server.runHttp(CLI_OPTIONS) : server.run()).catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,245 @@
+// Index recommendations using equality-sort-range (ESR) ordering
+import { Document } from "mongodb";
+
+export type IndexDirection = 1 | -1;
+export type IndexKeyEntry = [field: string, direction: IndexDirection];
+
+export interface QueryShape {
+  equality: string[];
+  sort: IndexKeyEntry[];
+  range: string[];
+}
+
+export interface QuerySpec {
+  filter?: Document;
+  sort?: Document;
+}
+
+export interface ExistingIndex {
+  name: string;
+  key: Document;
+  unique?: boolean;
+  sparse?: boolean;
+  partialFilterExpression?: Document;
+  expireAfterSeconds?: number;
+  // Operations counted by $indexStats since the last restart, when available
+  accesses?: number;
+}
+
+export interface IndexSuggestion {
+  key: Document;
+  shape: QueryShape;
+  // Number of analyzed queries this index would serve
+  queries: number;
+  coveredBy?: string;
+  createIndex: string;
+}
+
+export interface IndexFinding {
+  name: string;
+  key: Document;
+  reason: string;
+}
+
+export interface IndexAdvice {
+  suggestions: IndexSuggestion[];
+  unusedIndexes: IndexFinding[];
+  redundantIndexes: IndexFinding[];
+}
+
+const RANGE_OPERATORS = new Set([
+  "$gt", "$gte", "$lt", "$lte", "$ne", "$nin", "$regex", "$exists", "$not", "$type", "$size", "$all", "$elemMatch", "$mod",
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function isRegex(value: unknown): boolean {
+  return value instanceof RegExp || (value as { _bsontype?: string } | null)?._bsontype === "BSONRegExp";
+}
+
+function emptyShape(): QueryShape {
+  return { equality: [], sort: [], range: [] };
+}
+
+function mergeShapes(a: QueryShape, b: QueryShape): QueryShape {
+  return {
+    equality: [...a.equality, ...b.equality],
+    sort: [...a.sort, ...b.sort],
+    range: [...a.range, ...b.range],
+  };
+}
+
+/**
+ * Classify a filter's fields into equality and range predicates. Each $or branch
+ * becomes its own shape, since the planner can use a separate index per branch.
+ */
+export function filterShapes(filter: Document = {}): QueryShape[] {
+  let shapes: QueryShape[] = [emptyShape()];
+
+  const combine = (branchShapes: QueryShape[]) => {
+    shapes = shapes.flatMap((shape) => branchShapes.map((branch) => mergeShapes(shape, branch)));
+  };
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === "$and" && Array.isArray(value)) {
+      value.forEach((clause) => combine(filterShapes(clause)));
+    } else if (key === "$or" && Array.isArray(value)) {
+      combine(value.flatMap((clause) => filterShapes(clause)));
+    } else if (key.startsWith("$")) {
+      // $expr, $text, $nor and friends cannot drive an index key choice
+      continue;
+    } else if (isRegex(value)) {
+      combine([{ ...emptyShape(), range: [key] }]);
+    } else if (isPlainObject(value) && Object.keys(value).some((k) => k.startsWith("$"))) {
+      const operators = Object.keys(value);
+      const isRange = operators.some((op) => RANGE_OPERATORS.has(op));
+      combine([isRange ? { ...emptyShape(), range: [key] } : { ...emptyShape(), equality: [key] }]);
+    } else {
+      combine([{ ...emptyShape(), equality: [key] }]);
+    }
+  }
+
+  return shapes;
+}
+
+export function queryShapes(query: QuerySpec): QueryShape[] {
+  const sort: IndexKeyEntry[] = Object.entries(query.sort ?? {}).map(([field, direction]) => [
+    field,
+    Number(direction) < 0 ? -1 : 1,
+  ]);
+  return filterShapes(query.filter).map((shape) => ({ ...shape, sort }));
+}
+
+/**
+ * Equality fields first, then sort fields in order and direction, then range fields.
+ */
+export function esrIndexKey(shape: QueryShape): IndexKeyEntry[] {
+  const key: IndexKeyEntry[] = [];
+  const seen = new Set<string>();
+  const add = (field: string, direction: IndexDirection) => {
+    if (seen.has(field)) return;
+    seen.add(field);
+    key.push([field, direction]);
+  };
+
+  shape.equality.forEach((field) => add(field, 1));
+  shape.sort.forEach(([field, direction]) => add(field, direction));
+  shape.range.forEach((field) => add(field, 1));
+  return key;
+}
+
+function keyEntries(key: Document): IndexKeyEntry[] {
+  return Object.entries(key).map(([field, direction]) => [field, Number(direction) < 0 ? -1 : 1]);
+}
+
+function keyDocument(entries: IndexKeyEntry[]): Document {
+  return Object.fromEntries(entries);
+}
+
+/**
+ * An existing index serves the suggested key if it starts with the equality fields
+ * (in any order) followed by the remaining fields in order, with the sort
+ * directions either all matching or all reversed.
+ */
+function serves(existing: IndexKeyEntry[], suggested: IndexKeyEntry[], equalityCount: number): boolean {
+  if (existing.length < suggested.length) return false;
+
+  const equality = new Set(suggested.slice(0, equalityCount).map(([field]) => field));
+  for (let i = 0; i < equalityCount; i++) {
+    if (!equality.has(existing[i][0])) return false;
+  }
+
+  let sameDirection = true;
+  let reversed = true;
+  for (let i = equalityCount; i < suggested.length; i++) {
+    const [field, direction] = suggested[i];
+    const [existingField, existingDirection] = existing[i];
+    if (field !== existingField) return false;
+    if (direction !== existingDirection) sameDirection = false;
+    if (direction === existingDirection) reversed = false;
+  }
+  return sameDirection || reversed;
+}
+
+function isPrefix(shorter: IndexKeyEntry[], longer: IndexKeyEntry[]): boolean {
+  return (
+    shorter.length <= longer.length &&
+    shorter.every(([field, direction], i) => longer[i][0] === field && longer[i][1] === direction)
+  );
+}
+
+function hasSpecialOptions(index: ExistingIndex): boolean {
+  return Boolean(index.unique || index.sparse || index.partialFilterExpression || index.expireAfterSeconds !== undefined);
+}
+
+// Text, geo and hashed indexes use string key values and are not ESR candidates
+function isOrderedIndex(index: ExistingIndex): boolean {
+  return Object.values(index.key).every((direction) => typeof direction === "number");
+}
+
+export function adviseIndexes(collection: string, queries: QuerySpec[], existing: ExistingIndex[]): IndexAdvice {
+  const suggestions = new Map<string, IndexSuggestion>();
+  const existingKeys = existing
+    .filter(isOrderedIndex)
+    .map((index) => ({ index, entries: keyEntries(index.key) }));
+
+  for (const query of queries) {
+    for (const shape of queryShapes(query)) {
+      const entries = esrIndexKey(shape);
+      if (entries.length === 0) continue;
+
+      const id = JSON.stringify(entries);
+      const current = suggestions.get(id);
+      if (current) {
+        current.queries++;
+        continue;
+      }
+
+      const equalityCount = new Set(shape.equality).size;
+      const coveredBy = existingKeys.find(({ entries: e }) => serves(e, entries, equalityCount))?.index.name;
+      const key = keyDocument(entries);
+      suggestions.set(id, {
+        key,
+        shape,
+        queries: 1,
+        ...(coveredBy ? { coveredBy } : {}),
+        createIndex: `db.getCollection(${JSON.stringify(collection)}).createIndex(${JSON.stringify(key)})`,
+      });
+    }
+  }
+
+  const unusedIndexes: IndexFinding[] = existing
+    .filter((index) => index.name !== "_id_" && index.accesses === 0)
+    .map((index) => ({ name: index.name, key: index.key, reason: "No recorded accesses in $indexStats since the server started" }));
+
+  const redundantIndexes: IndexFinding[] = [];
+  for (const { index, entries } of existingKeys) {
+    if (index.name === "_id_" || hasSpecialOptions(index)) continue;
+    const wider = existingKeys.find(
+      (other) =>
+        other.index !== index &&
+        isPrefix(entries, other.entries) &&
+        (other.entries.length > entries.length || other.index.name < index.name)
+    );
+    if (wider) {
+      redundantIndexes.push({
+        name: index.name,
+        key: index.key,
+        reason:
+          wider.entries.length > entries.length
+            ? `Key is a prefix of index ${wider.index.name}`
+            : `Same key as index ${wider.index.name}`,
+      });
+    }
+  }
+
+  return {
+    suggestions: [...suggestions.values()].sort((a, b) => b.queries - a.queries),
+    unusedIndexes,
+    redundantIndexes,
+  };
+}
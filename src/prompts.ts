@@ -0,0 +1,358 @@
+// Prompt definitions and schema-aware prompt messages built from a collection snapshot
+import { ErrorCode, GetPromptResult, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Document } from "mongodb";
+import { EJSONMode, stringifyEJSON } from "./ejson.js";
+import { collectionUri } from "./resourceUris.js";
+import { FieldSchema, SchemaAnalysis } from "./schemaAnalyzer.js";
+
+// What a prompt knows about its collection, gathered at prompts/get time
+export interface CollectionSnapshot {
+  profile: string;
+  database: string;
+  collection: string;
+  documentCount: number;
+  schema: SchemaAnalysis;
+  indexes: { name: string; key: Document }[];
+  samples: Document[];
+}
+
+type PromptArguments = Record<string, string | undefined>;
+
+const TARGET_ARGUMENTS = [
+  {
+    name: "connection",
+    description: "Connection profile name (default profile if not specified)",
+    required: false,
+  },
+  {
+    name: "database",
+    description: "Database name (the profile's default database if not specified)",
+    required: false,
+  },
+];
+
+const COLLECTION_ARGUMENT = { name: "collection", description: "Name of the collection", required: true };
+
+export const PROMPTS = [
+  {
+    name: "analyze_collection",
+    description: "Analyze a MongoDB collection and provide insights, starting from its schema, size, indexes and samples",
+    arguments: [COLLECTION_ARGUMENT, ...TARGET_ARGUMENTS],
+  },
+  {
+    name: "find_recent_records",
+    description: "Find recent records in a collection by a date field",
+    arguments: [
+      COLLECTION_ARGUMENT,
+      { name: "dateField", description: "Date field to sort by (must hold dates)", required: true },
+      { name: "limit", description: "Number of records to return (default: 10)", required: false },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+  {
+    name: "aggregate_summary",
+    description: "Create an aggregation summary for a collection",
+    arguments: [
+      COLLECTION_ARGUMENT,
+      { name: "groupBy", description: "Field to group by", required: true },
+      { name: "metric", description: "Numeric field to calculate metrics on", required: false },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+  {
+    name: "investigate_anomaly",
+    description: "Look for outliers in a numeric field, optionally over time, and explain what stands out",
+    arguments: [
+      COLLECTION_ARGUMENT,
+      { name: "field", description: "Numeric field to investigate", required: true },
+      { name: "dateField", description: "Date field for a time series view", required: false },
+      { name: "description", description: "What looks wrong, in your own words", required: false },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+  {
+    name: "compare_time_periods",
+    description: "Compare two time periods of a collection by count, and optionally a metric and grouping",
+    arguments: [
+      COLLECTION_ARGUMENT,
+      { name: "dateField", description: "Date field that places documents in a period", required: true },
+      { name: "periodA", description: "First period as an ISO interval, e.g. 2024-01-01/2024-02-01", required: true },
+      { name: "periodB", description: "Second period as an ISO interval, e.g. 2024-02-01/2024-03-01", required: true },
+      { name: "metric", description: "Numeric field to total and average", required: false },
+      { name: "groupBy", description: "Field to break the comparison down by", required: false },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+  {
+    name: "data_quality_report",
+    description: "Report missing fields, mixed types and suspicious values in a collection",
+    arguments: [COLLECTION_ARGUMENT, ...TARGET_ARGUMENTS],
+  },
+];
+
+const NUMERIC_TYPES = ["int", "long", "double", "decimal"];
+const DATE_TYPES = ["date", "timestamp"];
+
+function invalidArgument(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+export function requireArgument(args: PromptArguments, name: string): string {
+  const value = args[name];
+  if (!value) {
+    throw invalidArgument(`Missing required argument "${name}"`);
+  }
+  return value;
+}
+
+/**
+ * Look up a field in the sampled schema, optionally requiring its dominant type
+ * (ignoring nulls) to be one of the expected types.
+ */
+function schemaField(
+  snapshot: CollectionSnapshot,
+  argument: string,
+  path: string,
+  expected?: { types: string[]; label: string }
+): FieldSchema {
+  const field = snapshot.schema.fields.find((f) => f.path === path);
+  if (!field) {
+    const known = snapshot.schema.fields.map((f) => f.path);
+    throw invalidArgument(
+      `${argument} "${path}" does not appear in ${snapshot.schema.documentsSampled} sampled documents of ` +
+        `${snapshot.collection} (fields: ${known.slice(0, 30).join(", ")}${known.length > 30 ? ", ..." : ""})`
+    );
+  }
+
+  const dominant = field.types.find((t) => t.type !== "null")?.type;
+  if (expected && (!dominant || !expected.types.includes(dominant))) {
+    throw invalidArgument(
+      `${argument} "${path}" holds ${field.types.map((t) => `${t.type} (${t.percentage}%)`).join(", ")}, not ${expected.label}`
+    );
+  }
+  return field;
+}
+
+function parseInterval(argument: string, value: string): { start: Date; end: Date } {
+  const [startText, endText] = value.split("/");
+  const start = new Date(startText);
+  const end = new Date(endText);
+  if (!endText || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+    throw invalidArgument(`${argument} must be an ISO interval like 2024-01-01/2024-02-01 with start before end`);
+  }
+  return { start, end };
+}
+
+function describeField(field: FieldSchema): string {
+  const types = field.types.map((t) => (field.types.length > 1 ? `${t.type} ${t.percentage}%` : t.type)).join(", ");
+  return `- ${field.path}: ${types}${field.required ? "" : ` (present in ${Math.round(field.presence * 100)}%)`}`;
+}
+
+/**
+ * Schema, indexes and samples as embedded resources, so the model sees real field names.
+ */
+function contextMessages(snapshot: CollectionSnapshot, mode: EJSONMode): GetPromptResult["messages"] {
+  const { profile, database, collection } = snapshot;
+  return [
+    {
+      role: "user",
+      content: {
+        type: "resource",
+        resource: {
+          uri: collectionUri(profile, database, collection, "schema"),
+          mimeType: "application/json",
+          text: stringifyEJSON(
+            {
+              collection,
+              documentCount: snapshot.documentCount,
+              documentsSampled: snapshot.schema.documentsSampled,
+              fields: snapshot.schema.fields.map(({ examples, ...field }) => field),
+            },
+            mode
+          ),
+        },
+      },
+    },
+    {
+      role: "user",
+      content: {
+        type: "resource",
+        resource: {
+          uri: collectionUri(profile, database, collection, "indexes"),
+          mimeType: "application/json",
+          text: stringifyEJSON({ collection, indexes: snapshot.indexes }, mode),
+        },
+      },
+    },
+    {
+      role: "user",
+      content: {
+        type: "resource",
+        resource: {
+          uri: collectionUri(profile, database, collection),
+          mimeType: "application/json",
+          text: stringifyEJSON({ collection, sampleDocuments: snapshot.samples }, mode),
+        },
+      },
+    },
+  ];
+}
+
+function instructions(snapshot: CollectionSnapshot, text: string): GetPromptResult["messages"][number] {
+  const target =
+    `Collection "${snapshot.collection}" in database "${snapshot.database}" (connection "${snapshot.profile}"), ` +
+    `about ${snapshot.documentCount} documents. Pass connection and database to the tools accordingly.`;
+  return { role: "user", content: { type: "text", text: `${target}\n\n${text}` } };
+}
+
+/**
+ * Build the messages for a prompt, validating field arguments against the sampled schema.
+ */
+export function buildPrompt(
+  name: string,
+  args: PromptArguments,
+  snapshot: CollectionSnapshot,
+  mode: EJSONMode
+): GetPromptResult {
+  const collection = snapshot.collection;
+  const messages = contextMessages(snapshot, mode);
+
+  switch (name) {
+    case "analyze_collection": {
+      messages.push(
+        instructions(
+          snapshot,
+          `Please analyze this collection using the schema, indexes and samples above. Provide insights on:
+1. Data distribution and patterns
+2. Common field values and their frequencies
+3. Data quality observations (missing fields, outliers, etc.)
+4. Recommendations for queries or further analysis
+
+Use the mongodb_query and mongodb_aggregate tools to explore the data.`
+        )
+      );
+      return { description: `Analyze ${collection}`, messages };
+    }
+
+    case "find_recent_records": {
+      const dateField = requireArgument(args, "dateField");
+      schemaField(snapshot, "dateField", dateField, { types: DATE_TYPES, label: "dates" });
+      const limit = args.limit ? parseInt(args.limit, 10) : 10;
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw invalidArgument("limit must be a positive integer");
+      }
+
+      messages.push(
+        instructions(
+          snapshot,
+          `Find the ${limit} most recent records, sorted by "${dateField}" in descending order. ` +
+            `Use the mongodb_query tool with sort '{"${dateField}": -1}' and limit ${limit}, then summarize what they have in common.`
+        )
+      );
+      return { description: `Recent ${collection} records by ${dateField}`, messages };
+    }
+
+    case "aggregate_summary": {
+      const groupBy = requireArgument(args, "groupBy");
+      schemaField(snapshot, "groupBy", groupBy);
+      const metric = args.metric;
+      if (metric) schemaField(snapshot, "metric", metric, { types: NUMERIC_TYPES, label: "numbers" });
+
+      messages.push(
+        instructions(
+          snapshot,
+          `Create an aggregation summary grouped by "${groupBy}"${
+            metric ? ` with count, sum, average, min and max of "${metric}"` : " with the count of each group"
+          }. Use the mongodb_aggregate tool, sort groups by size and call out the largest and smallest.`
+        )
+      );
+      return { description: `Summary of ${collection} by ${groupBy}`, messages };
+    }
+
+    case "investigate_anomaly": {
+      const field = requireArgument(args, "field");
+      schemaField(snapshot, "field", field, { types: NUMERIC_TYPES, label: "numbers" });
+      const dateField = args.dateField;
+      if (dateField) schemaField(snapshot, "dateField", dateField, { types: DATE_TYPES, label: "dates" });
+
+      messages.push(
+        instructions(
+          snapshot,
+          `Investigate anomalies in "${field}".${args.description ? ` Reported problem: ${args.description}` : ""}
+1. Compute the baseline with mongodb_aggregate: count, average, standard deviation ($stdDevPop), min, max and percentiles ($percentile on MongoDB 7+, otherwise $bucketAuto).
+2. Find the documents more than three standard deviations from the mean, and values that are missing, null or of the wrong type.${
+            dateField
+              ? `\n3. Group by day of "${dateField}" ($dateTrunc) to see when the anomaly started and whether it is still ongoing.`
+              : ""
+          }
+${dateField ? "4" : "3"}. Compare a few anomalous documents with normal ones (mongodb_query) and explain which other fields differ.
+
+Report what is anomalous, since when, how many documents are affected and the most likely cause.`
+        )
+      );
+      return { description: `Anomalies in ${collection}.${field}`, messages };
+    }
+
+    case "compare_time_periods": {
+      const dateField = requireArgument(args, "dateField");
+      schemaField(snapshot, "dateField", dateField, { types: DATE_TYPES, label: "dates" });
+      const periodA = parseInterval("periodA", requireArgument(args, "periodA"));
+      const periodB = parseInterval("periodB", requireArgument(args, "periodB"));
+      const metric = args.metric;
+      if (metric) schemaField(snapshot, "metric", metric, { types: NUMERIC_TYPES, label: "numbers" });
+      const groupBy = args.groupBy;
+      if (groupBy) schemaField(snapshot, "groupBy", groupBy);
+
+      const period = ({ start, end }: { start: Date; end: Date }) => [
+        { $match: { [dateField]: { $gte: { $date: start.toISOString() }, $lt: { $date: end.toISOString() } } } },
+        {
+          $group: {
+            _id: groupBy ? `$${groupBy}` : null,
+            count: { $sum: 1 },
+            ...(metric ? { total: { $sum: `$${metric}` }, average: { $avg: `$${metric}` } } : {}),
+          },
+        },
+      ];
+
+      messages.push(
+        instructions(
+          snapshot,
+          `Compare period A (${periodA.start.toISOString()} to ${periodA.end.toISOString()}) with period B (${periodB.start.toISOString()} to ${periodB.end.toISOString()}) on "${dateField}".
+Run this pipeline with mongodb_aggregate:
+
+${JSON.stringify([{ $facet: { periodA: period(periodA), periodB: period(periodB) } }], null, 2)}
+
+Report the absolute and percentage change in count${metric ? `, total and average "${metric}"` : ""}${
+            groupBy ? ` for each "${groupBy}" value, highlighting the biggest movers` : ""
+          }, and note if the periods differ in length.`
+        )
+      );
+      return { description: `${collection}: period A vs period B`, messages };
+    }
+
+    case "data_quality_report": {
+      const optional = snapshot.schema.fields.filter((f) => !f.required);
+      const mixed = snapshot.schema.fields.filter((f) => f.types.filter((t) => t.type !== "null").length > 1);
+      const nullable = snapshot.schema.fields.filter((f) => f.types.some((t) => t.type === "null"));
+
+      messages.push(
+        instructions(
+          snapshot,
+          `Write a data quality report. From the ${snapshot.schema.documentsSampled}-document sample:
+Fields missing from some documents:
+${optional.map(describeField).join("\n") || "- none"}
+Fields with mixed types:
+${mixed.map(describeField).join("\n") || "- none"}
+Fields containing nulls:
+${nullable.map(describeField).join("\n") || "- none"}
+
+Confirm each finding over the whole collection with mongodb_count (e.g. {"field": {"$exists": false}} or {"field": {"$type": "string"}}), look for duplicates on fields that should be unique, empty strings, and dates or numbers outside plausible ranges. Rank the issues by the number of affected documents and suggest fixes or a validator.`
+        )
+      );
+      return { description: `Data quality report for ${collection}`, messages };
+    }
+
+    default:
+      throw invalidArgument(`Unknown prompt: ${name}`);
+  }
+}
@@ -0,0 +1,57 @@
+// In-memory ring buffer of recent query shapes, used for index suggestions
+import { Document } from "mongodb";
+
+// Where a query ran; collections with the same name in different databases are kept apart
+export interface QueryNamespace {
+  connection: string;
+  database: string;
+  collection: string;
+}
+
+export interface QueryHistoryEntry extends QueryNamespace {
+  timestamp: Date;
+  tool: string;
+  filter?: Document;
+  sort?: Document;
+}
+
+export class QueryHistory {
+  private entries: QueryHistoryEntry[] = [];
+
+  constructor(private capacity = 500) {}
+
+  record(entry: Omit<QueryHistoryEntry, "timestamp">) {
+    this.entries.push({ timestamp: new Date(), ...entry });
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+  }
+
+  /**
+   * Record the query shape of a pipeline: its leading $match and the $sort right after it.
+   */
+  recordPipeline(tool: string, namespace: QueryNamespace, pipeline: Document[]) {
+    const [first, second] = pipeline;
+    if (!first) return;
+
+    if (first.$match) {
+      this.record({ tool, ...namespace, filter: first.$match, sort: second?.$sort });
+    } else if (first.$sort) {
+      this.record({ tool, ...namespace, sort: first.$sort });
+    }
+  }
+
+  // Most recent first
+  recent(namespace?: QueryNamespace, limit = 50): QueryHistoryEntry[] {
+    return this.entries
+      .filter(
+        (entry) =>
+          namespace === undefined ||
+          (entry.connection === namespace.connection &&
+            entry.database === namespace.database &&
+            entry.collection === namespace.collection)
+      )
+      .slice(-limit)
+      .reverse();
+  }
+}
@@ -0,0 +1,186 @@
+// Read-only enforcement for filters, projections, sorts and aggregation pipelines
+
+// Stages that write to the database
+const WRITE_STAGES = ["$out", "$merge"];
+
+// Operators that execute server-side JavaScript
+const CODE_EXECUTION_OPERATORS = ["$where", "$function", "$accumulator"];
+
+export const DEFAULT_DENIED_OPERATORS = [...WRITE_STAGES, ...CODE_EXECUTION_OPERATORS];
+
+// The only stages the server accepts in an update given as a pipeline
+const UPDATE_PIPELINE_STAGES = ["$set", "$addFields", "$project", "$unset", "$replaceRoot", "$replaceWith"];
+
+export interface OperatorPolicy {
+  // Operators rejected in addition to the defaults
+  deny?: string[];
+  // Operators removed from the deny list (takes precedence over deny)
+  allow?: string[];
+}
+
+export class QuerySafetyError extends Error {
+  constructor(
+    message: string,
+    public readonly operator: string,
+    public readonly path: string,
+    public readonly stage?: string
+  ) {
+    super(message);
+    this.name = "QuerySafetyError";
+  }
+}
+
+/**
+ * Build an operator policy from comma-separated environment variables
+ * (MONGODB_DENIED_OPERATORS and MONGODB_ALLOWED_OPERATORS).
+ */
+export function operatorPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): OperatorPolicy {
+  return {
+    deny: splitList(env.MONGODB_DENIED_OPERATORS),
+    allow: splitList(env.MONGODB_ALLOWED_OPERATORS),
+  };
+}
+
+function splitList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => (item.startsWith("$") ? item : `$${item}`));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+export class QuerySafetyValidator {
+  private denied: Set<string>;
+
+  constructor(policy: OperatorPolicy = {}) {
+    const allowed = new Set(policy.allow ?? []);
+    this.denied = new Set(
+      [...DEFAULT_DENIED_OPERATORS, ...(policy.deny ?? [])].filter((op) => !allowed.has(op))
+    );
+  }
+
+  get deniedOperators(): string[] {
+    return [...this.denied].sort();
+  }
+
+  validateFilter(filter: unknown, path = "filter") {
+    this.walk(filter, path);
+  }
+
+  validateProjection(projection: unknown, path = "projection") {
+    this.walk(projection, path);
+  }
+
+  validateSort(sort: unknown, path = "sort") {
+    this.walk(sort, path);
+  }
+
+  // Update documents ({$set: ...}) or update pipelines
+  validateUpdate(update: unknown, path = "update") {
+    if (Array.isArray(update)) {
+      this.validatePipeline(update, path);
+      update.forEach((stage, index) => {
+        const [stageName] = Object.keys(stage);
+        if (!UPDATE_PIPELINE_STAGES.includes(stageName)) {
+          throw new QuerySafetyError(
+            `Stage ${stageName} is not allowed in an update pipeline; use ${UPDATE_PIPELINE_STAGES.join(", ")}`,
+            stageName,
+            `${path}[${index}].${stageName}`,
+            stageName
+          );
+        }
+      });
+      return;
+    }
+    if (!isPlainObject(update) || Object.keys(update).length === 0 || !Object.keys(update).every((key) => key.startsWith("$"))) {
+      throw new Error(`${path} must be an object of update operators (e.g. {"$set": {...}}) or a pipeline`);
+    }
+    this.walk(update, path);
+  }
+
+  validatePipeline(pipeline: unknown, path = "pipeline") {
+    if (!Array.isArray(pipeline)) {
+      throw new Error(`${path} must be an array of stages`);
+    }
+
+    pipeline.forEach((stage, index) => {
+      const stagePath = `${path}[${index}]`;
+      if (!isPlainObject(stage) || Object.keys(stage).length !== 1) {
+        throw new Error(`${stagePath} must be an object with exactly one stage operator`);
+      }
+
+      const [stageName] = Object.keys(stage);
+      this.checkOperator(stageName, `${stagePath}.${stageName}`, stageName);
+      this.validateStage(stageName, stage[stageName], `${stagePath}.${stageName}`);
+    });
+  }
+
+  private validateStage(stageName: string, body: unknown, path: string) {
+    switch (stageName) {
+      case "$lookup":
+      case "$unionWith": {
+        // $unionWith accepts a bare collection name
+        if (!isPlainObject(body)) return;
+        const { pipeline, ...rest } = body;
+        if (pipeline !== undefined) {
+          this.validatePipeline(pipeline, `${path}.pipeline`);
+        }
+        this.walk(rest, path, stageName);
+        return;
+      }
+
+      case "$facet": {
+        if (!isPlainObject(body)) return;
+        for (const [name, subPipeline] of Object.entries(body)) {
+          this.validatePipeline(subPipeline, `${path}.${name}`);
+        }
+        return;
+      }
+
+      default:
+        this.walk(body, path, stageName);
+    }
+  }
+
+  private walk(value: unknown, path: string, stage?: string) {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.walk(item, `${path}[${index}]`, stage));
+      return;
+    }
+
+    if (!isPlainObject(value)) return;
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}.${key}`;
+      if (key.startsWith("$")) {
+        this.checkOperator(key, childPath, stage);
+      }
+      this.walk(child, childPath, stage);
+    }
+  }
+
+  private checkOperator(operator: string, path: string, stage?: string) {
+    if (!this.denied.has(operator)) return;
+
+    const location = stage ? `${stage} stage at ${path}` : path;
+    const reason = WRITE_STAGES.includes(operator)
+      ? "writes data"
+      : CODE_EXECUTION_OPERATORS.includes(operator)
+      ? "executes server-side JavaScript"
+      : "is denied by the operator policy";
+
+    throw new QuerySafetyError(
+      `Operator ${operator} is not allowed (${reason}) in ${location}`,
+      operator,
+      path,
+      stage
+    );
+  }
+}
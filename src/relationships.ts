@@ -0,0 +1,206 @@
+// Reference discovery between collections by probing sampled values against _id and unique keys
+import { Db, Document } from "mongodb";
+import { FieldSchema, analyzeDocuments, bsonTypeOf, sampleDocuments } from "./schemaAnalyzer.js";
+
+export interface RelationshipOptions {
+  sampleSize: number;
+  // Distinct sampled values probed per candidate field
+  maxValues: number;
+  minMatchRate: number;
+  maxTimeMS?: number;
+}
+
+export interface Relationship {
+  from: { collection: string; field: string; type: string; isArray: boolean };
+  to: { collection: string; field: string };
+  cardinality: "many-to-one" | "many-to-many";
+  valuesTested: number;
+  matched: number;
+  matchRate: number;
+  // Match rate, nudged up when the field name points at the target collection
+  score: number;
+  lookup: Document[];
+}
+
+interface CollectionInfo {
+  name: string;
+  documents: Document[];
+  fields: FieldSchema[];
+  // _id plus fields with a single-field unique index
+  keys: { field: string; type?: string }[];
+}
+
+const REFERENCE_TYPES = ["objectId", "string"];
+
+function dominantType(field: FieldSchema): { type?: string; isArray: boolean } {
+  const [top] = field.types.filter((t) => t.type !== "null");
+  if (top?.type === "array") {
+    return { type: field.arrayItemTypes?.[0]?.type, isArray: true };
+  }
+  return { type: top?.type, isArray: false };
+}
+
+/**
+ * Values at a dotted path, descending into arrays of sub-documents and
+ * flattening arrays of scalars.
+ */
+export function valuesAtPath(value: unknown, path: string[]): unknown[] {
+  if (Array.isArray(value)) return value.flatMap((item) => valuesAtPath(item, path));
+  if (path.length === 0) return value === undefined || value === null ? [] : [value];
+  if (value === null || typeof value !== "object") return [];
+  return valuesAtPath((value as Record<string, unknown>)[path[0]], path.slice(1));
+}
+
+function singular(name: string): string {
+  return name.replace(/ies$/i, "y").replace(/(ses|xes)$/i, (m) => m.slice(0, -2)).replace(/s$/i, "");
+}
+
+/**
+ * Whether a field name refers to a collection: customerId, customer_id or
+ * customer.id for "customers".
+ */
+export function nameSuggests(field: string, collection: string): boolean {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const leaf = normalize(field.split(".").slice(-2).join("")).replace(/(ids?|refs?|keys?)$/, "");
+  const target = normalize(singular(collection));
+  return leaf.length > 0 && (leaf === target || leaf.endsWith(target) || target.endsWith(leaf));
+}
+
+function lookupName(field: string, target: string, isArray: boolean): string {
+  const leaf = field.split(".").pop() ?? field;
+  const stripped = leaf.replace(/(_?ids?|_?refs?)$/i, "");
+  const base = stripped && stripped !== leaf ? stripped : singular(target);
+  return isArray && !base.endsWith("s") ? `${base}s` : base;
+}
+
+export function lookupStages(relationship: Omit<Relationship, "lookup">): Document[] {
+  const as = lookupName(relationship.from.field, relationship.to.collection, relationship.from.isArray);
+  const lookup = {
+    $lookup: {
+      from: relationship.to.collection,
+      localField: relationship.from.field,
+      foreignField: relationship.to.field,
+      as,
+    },
+  };
+  return relationship.from.isArray
+    ? [lookup]
+    : [lookup, { $unwind: { path: `$${as}`, preserveNullAndEmptyArrays: true } }];
+}
+
+async function describeCollection(
+  db: Db,
+  name: string,
+  options: RelationshipOptions,
+  transform: (collection: string, documents: Document[]) => Document[]
+): Promise<CollectionInfo> {
+  const collection = db.collection(name);
+  const documents = transform(name, await sampleDocuments(collection, options.sampleSize, options.maxTimeMS));
+  const { fields } = analyzeDocuments(documents);
+
+  let uniqueFields: string[] = [];
+  try {
+    uniqueFields = (await collection.indexes())
+      .filter((index) => index.unique && Object.keys(index.key).length === 1)
+      .map((index) => Object.keys(index.key)[0]);
+  } catch {
+    // Views have no indexes
+  }
+
+  const keys = ["_id", ...uniqueFields.filter((field) => field !== "_id")].map((field) => {
+    const schema = fields.find((f) => f.path === field);
+    return { field, type: schema ? dominantType(schema).type : undefined };
+  });
+  return { name, documents, fields, keys };
+}
+
+/**
+ * Sample every collection, then for each ObjectId or string field probe up to
+ * maxValues of its distinct sampled values against the _id and unique keys of
+ * every collection with the same key type. Fields whose values are found at
+ * least minMatchRate of the time become relationships.
+ */
+export async function discoverRelationships(
+  db: Db,
+  collectionNames: string[],
+  options: RelationshipOptions,
+  transform: (collection: string, documents: Document[]) => Document[] = (_, documents) => documents
+): Promise<Relationship[]> {
+  const collections: CollectionInfo[] = [];
+  for (const name of collectionNames) {
+    collections.push(await describeCollection(db, name, options, transform));
+  }
+
+  const relationships: Relationship[] = [];
+  for (const source of collections) {
+    for (const field of source.fields) {
+      if (field.path === "_id" || field.path.startsWith("_id.")) continue;
+      const { type, isArray } = dominantType(field);
+      if (!type || !REFERENCE_TYPES.includes(type)) continue;
+
+      const seen = new Map<string, unknown>();
+      for (const doc of source.documents) {
+        for (const value of valuesAtPath(doc, field.path.split("."))) {
+          if (bsonTypeOf(value) === type && seen.size < options.maxValues) seen.set(String(value), value);
+        }
+      }
+      const values = [...seen.values()];
+      if (values.length === 0) continue;
+
+      for (const target of collections) {
+        for (const key of target.keys) {
+          if (key.type !== type || (target.name === source.name && key.field === field.path)) continue;
+
+          const matched = await db
+            .collection(target.name)
+            .countDocuments({ [key.field]: { $in: values } }, { maxTimeMS: options.maxTimeMS });
+          const matchRate = Math.min(1, matched / values.length);
+          if (matchRate < options.minMatchRate) continue;
+
+          const relationship = {
+            from: { collection: source.name, field: field.path, type, isArray },
+            to: { collection: target.name, field: key.field },
+            cardinality: isArray ? ("many-to-many" as const) : ("many-to-one" as const),
+            valuesTested: values.length,
+            matched,
+            matchRate: Math.round(matchRate * 1000) / 1000,
+            score: Math.round(Math.min(1, matchRate + (nameSuggests(field.path, target.name) ? 0.1 : 0)) * 1000) / 1000,
+          };
+          relationships.push({ ...relationship, lookup: lookupStages(relationship) });
+        }
+      }
+    }
+  }
+
+  return relationships.sort((a, b) => b.score - a.score);
+}
+
+function mermaidName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/**
+ * Mermaid erDiagram of the relationships, with each entity listing its key and reference fields.
+ */
+export function mermaidDiagram(relationships: Relationship[]): string {
+  const attributes = new Map<string, Map<string, string>>();
+  const attribute = (collection: string, field: string, line: string) => {
+    const fields = attributes.get(collection) ?? new Map<string, string>();
+    fields.set(field, line);
+    attributes.set(collection, fields);
+  };
+
+  const lines = ["erDiagram"];
+  for (const relationship of relationships) {
+    const { from, to } = relationship;
+    const connector = from.isArray ? "}o--o{" : "||--o{";
+    lines.push(`  ${mermaidName(to.collection)} ${connector} ${mermaidName(from.collection)} : "${from.field}"`);
+    attribute(to.collection, to.field, `    ${from.type} ${mermaidName(to.field)} ${to.field === "_id" ? "PK" : "UK"}`);
+    attribute(from.collection, from.field, `    ${from.type}${from.isArray ? "[]" : ""} ${mermaidName(from.field)} FK`);
+  }
+
+  for (const [collection, fields] of attributes) {
+    lines.push(`  ${mermaidName(collection)} {`, ...fields.values(), "  }");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,109 @@
+// Parsing and formatting of mongodb:// resource URIs
+import { BSON } from "mongodb";
+
+export type CollectionResourceKind = "collection" | "documents" | "indexes" | "schema" | "validator";
+
+export type ResourceTarget =
+  | { kind: CollectionResourceKind; profile: string; database: string; collection: string; id?: string }
+  | { kind: "views"; profile: string; database: string };
+
+const COLLECTION_SUFFIXES = new Set<CollectionResourceKind>(["indexes", "schema", "validator"]);
+
+// RFC 6570 templates advertised to clients; the profile segment may be omitted for the default profile
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "mongodb://{profile}/{database}/{collection}/documents/{id}",
+    name: "Document by _id",
+    description: "A single document by _id; 24-character hex ids are also tried as ObjectIds and numeric ids as numbers",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "mongodb://{profile}/{database}/{collection}/indexes",
+    name: "Collection indexes",
+    description: "Index definitions with sizes and usage counts",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "mongodb://{profile}/{database}/{collection}/schema",
+    name: "Inferred collection schema",
+    description: "Field types and presence inferred from a sample, plus the equivalent $jsonSchema",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "mongodb://{profile}/{database}/{collection}/validator",
+    name: "Collection validator",
+    description: "The collection's validation rules ($jsonSchema or query validator), level and action",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "mongodb://{profile}/{database}/views",
+    name: "Database views",
+    description: "Views in a database with their source collection and pipeline",
+    mimeType: "application/json",
+  },
+];
+
+export function collectionUri(profile: string, database: string, collection: string, suffix?: string): string {
+  return `mongodb://${profile}/${database}/${collection}${suffix ? `/${suffix}` : ""}`;
+}
+
+export function viewsUri(profile: string, database: string): string {
+  return `mongodb://${profile}/${database}/views`;
+}
+
+/**
+ * Parse mongodb://{profile}/{db}/... URIs. When the first segment is not a known
+ * profile, the URI is read as mongodb://{db}/... on the default profile, which keeps
+ * the older two-segment collection URIs working. A third segment of "views" always
+ * means the view listing, so a collection named "views" is not addressable here.
+ */
+export function parseResourceUri(uri: string, profileNames: string[], defaultProfile: string): ResourceTarget {
+  const match = uri.match(/^mongodb:\/\/(.+)$/);
+  if (!match) {
+    throw new Error("Invalid MongoDB URI format");
+  }
+
+  const segments = match[1].split("/").map((segment) => decodeURIComponent(segment));
+  let profile = defaultProfile;
+  if (segments.length >= 3 && profileNames.includes(segments[0])) {
+    profile = segments.shift()!;
+  }
+
+  const [database, collection, ...rest] = segments;
+  if (!database || !collection) {
+    throw new Error("Invalid MongoDB URI format");
+  }
+
+  if (collection === "views" && rest.length === 0) {
+    return { kind: "views", profile, database };
+  }
+  if (rest.length === 0) {
+    return { kind: "collection", profile, database, collection };
+  }
+  if (rest[0] === "documents" && rest.length === 2 && rest[1]) {
+    return { kind: "documents", profile, database, collection, id: rest[1] };
+  }
+  if (rest.length === 1 && COLLECTION_SUFFIXES.has(rest[0] as CollectionResourceKind)) {
+    return { kind: rest[0] as CollectionResourceKind, profile, database, collection };
+  }
+  throw new Error(`Unknown MongoDB resource: ${uri}`);
+}
+
+/**
+ * Candidate _id values for an id taken from a URI: the string itself, an ObjectId
+ * for 24-character hex, a number for numeric text, or the value of an EJSON literal.
+ */
+export function documentIdCandidates(id: string): unknown[] {
+  if (id.startsWith("{")) {
+    return [BSON.EJSON.parse(`{"_id": ${id}}`)._id];
+  }
+
+  const candidates: unknown[] = [id];
+  if (/^[0-9a-fA-F]{24}$/.test(id)) {
+    candidates.push(new BSON.ObjectId(id));
+  }
+  if (/^-?\d+(\.\d+)?$/.test(id) && Number.isFinite(Number(id))) {
+    candidates.push(Number(id));
+  }
+  return candidates;
+}
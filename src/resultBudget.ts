@@ -0,0 +1,183 @@
+// Response size budgeting, value abbreviation and continuation tokens
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { AbstractCursor, BSON, Document } from "mongodb";
+import { EJSONMode, stringifyEJSON } from "./ejson.js";
+import { positiveIntFromEnv } from "./env.js";
+
+export interface BudgetOptions {
+  // Approximate size of the serialized result documents in one response
+  maxBytes: number;
+  maxStringLength: number;
+  maxBinaryBytes: number;
+}
+
+/**
+ * MONGODB_RESPONSE_MAX_BYTES (default 50000) or MONGODB_RESPONSE_MAX_TOKENS
+ * (about 4 bytes per token) bound each response; MONGODB_MAX_STRING_LENGTH and
+ * MONGODB_MAX_BINARY_BYTES bound individual values.
+ */
+export function budgetOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): BudgetOptions {
+  const maxTokens = positiveIntFromEnv(env, "MONGODB_RESPONSE_MAX_TOKENS", 0);
+
+  return {
+    maxBytes: maxTokens > 0 ? maxTokens * 4 : positiveIntFromEnv(env, "MONGODB_RESPONSE_MAX_BYTES", 50000),
+    maxStringLength: positiveIntFromEnv(env, "MONGODB_MAX_STRING_LENGTH", 1000),
+    maxBinaryBytes: positiveIntFromEnv(env, "MONGODB_MAX_BINARY_BYTES", 256),
+  };
+}
+
+/**
+ * Shorten long strings and binary payloads so a single field cannot take over the response.
+ */
+export function abbreviateValue(value: unknown, options: BudgetOptions): unknown {
+  if (typeof value === "string") {
+    return value.length > options.maxStringLength
+      ? `${value.slice(0, options.maxStringLength)}…[${value.length - options.maxStringLength} more chars]`
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => abbreviateValue(item, options));
+  }
+
+  if (value instanceof BSON.Binary) {
+    return value.length() > options.maxBinaryBytes
+      ? `<Binary subtype ${value.sub_type}, ${value.length()} bytes>`
+      : value;
+  }
+
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, abbreviateValue(v, options)])
+    );
+  }
+
+  return value;
+}
+
+export interface BudgetedResult {
+  documents: Document[];
+  // Stopped because the byte budget ran out, not because the cursor was exhausted
+  truncated: boolean;
+  bytes: number;
+}
+
+/**
+ * Read documents from a cursor until it is exhausted, maxDocuments is reached or
+ * the next document would exceed the byte budget. At least one document is always
+ * returned so paging makes progress. The cursor is closed before returning.
+ */
+export async function collectWithinBudget(
+  cursor: AbstractCursor<Document>,
+  options: BudgetOptions,
+  mode: EJSONMode,
+  transform: (doc: Document) => Document = (doc) => doc,
+  maxDocuments = Infinity
+): Promise<BudgetedResult> {
+  const documents: Document[] = [];
+  let bytes = 0;
+  let truncated = false;
+
+  try {
+    while (documents.length < maxDocuments) {
+      const next = await cursor.next();
+      if (next === null) break;
+
+      const doc = abbreviateValue(transform(next), options) as Document;
+      const size = Buffer.byteLength(stringifyEJSON(doc, mode));
+      if (documents.length > 0 && bytes + size > options.maxBytes) {
+        truncated = true;
+        break;
+      }
+      documents.push(doc);
+      bytes += size;
+    }
+  } finally {
+    await cursor.close();
+  }
+
+  return { documents, truncated, bytes };
+}
+
+// Where a paged query runs; a token only resumes against the same connection, database and collection
+export interface ContinuationTarget {
+  connection: string;
+  database: string;
+  collection: string;
+}
+
+export interface FindContinuation extends ContinuationTarget {
+  kind: "find";
+  filter: Document;
+  projection?: Document;
+  sort?: Document;
+  // Position of the next document and how many of the requested limit remain
+  offset: number;
+  remaining: number;
+}
+
+export interface AggregateContinuation extends ContinuationTarget {
+  kind: "aggregate";
+  pipeline: Document[];
+  offset: number;
+}
+
+export type ContinuationState = FindContinuation | AggregateContinuation;
+
+// Signs continuation tokens; tokens from an earlier process are rejected
+const TOKEN_KEY = randomBytes(32);
+
+function tokenSignature(payload: string): Buffer {
+  return createHmac("sha256", TOKEN_KEY).update(payload).digest();
+}
+
+/**
+ * Continuation tokens are EJSON of the query state, base64url-encoded and
+ * signed so that the offset and remaining limit cannot be edited to get past
+ * the execution guards. Callers still re-run the access and safety checks on resume.
+ */
+export function encodeContinuation(state: ContinuationState): string {
+  const payload = Buffer.from(BSON.EJSON.stringify({ v: 1, ...state }, { relaxed: false })).toString("base64url");
+  return `${payload}.${tokenSignature(payload).toString("base64url")}`;
+}
+
+function verifiedPayload(token: string): string | undefined {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return undefined;
+  const expected = tokenSignature(payload);
+  const actual = Buffer.from(signature, "base64url");
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? payload : undefined;
+}
+
+export function decodeContinuation<K extends ContinuationState["kind"]>(
+  token: string,
+  expectedKind: K,
+  target: ContinuationTarget
+): Extract<ContinuationState, { kind: K }> {
+  const payload = verifiedPayload(token);
+  if (!payload) {
+    throw new Error("Invalid cursor token: it was altered or issued before the server restarted");
+  }
+
+  let state: (ContinuationState & { v?: number }) | undefined;
+  try {
+    state = BSON.EJSON.parse(Buffer.from(payload, "base64url").toString("utf8"), { relaxed: true });
+  } catch {
+    state = undefined;
+  }
+
+  if (!state || state.v !== 1 || typeof state.collection !== "string" || typeof state.offset !== "number") {
+    throw new Error("Invalid cursor token");
+  }
+  if (state.kind !== expectedKind) {
+    throw new Error(`Cursor token belongs to a ${state.kind} call, not ${expectedKind}`);
+  }
+  for (const key of ["connection", "database", "collection"] as const) {
+    if (state[key] !== target[key]) {
+      throw new Error(`Cursor token belongs to ${key} "${state[key]}", not "${target[key]}"`);
+    }
+  }
+
+  const { v, ...rest } = state;
+  return rest as Extract<ContinuationState, { kind: K }>;
+}
@@ -0,0 +1,278 @@
+// Vetted, parameterized queries loaded from a config file and exposed as their own tools
+import { readFileSync } from "node:fs";
+import { BSON, Document } from "mongodb";
+
+export type ParameterType = "string" | "number" | "int" | "long" | "double" | "decimal" | "bool" | "date" | "objectId";
+
+const PARAMETER_TYPES: ParameterType[] = ["string", "number", "int", "long", "double", "decimal", "bool", "date", "objectId"];
+
+export interface SavedQueryParameter {
+  type: ParameterType;
+  description?: string;
+  // Used when the caller omits the parameter; parameters without one are required
+  default?: unknown;
+  enum?: unknown[];
+}
+
+export interface SavedQuery {
+  name: string;
+  description: string;
+  collection: string;
+  connection?: string;
+  database?: string;
+  // Exactly one of find or aggregate
+  find?: { filter?: Document; projection?: Document; sort?: Document; limit?: number };
+  aggregate?: Document[];
+  parameters: Record<string, SavedQueryParameter>;
+}
+
+// A placeholder must be an entire string value: "{{name}}"
+const PLACEHOLDER = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+const EMBEDDED_PLACEHOLDER = /\{\{.*?\}\}/;
+
+const RELATIVE_DATE = /^(?:now)?\s*([+-])\s*(\d+)\s*(m|h|d|w)$/;
+const UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/**
+ * Load saved queries from the JSON file named by MONGODB_SAVED_QUERIES_FILE:
+ *
+ *   { "queries": { "failed_orders": { "description": "...", "collection": "orders",
+ *       "find": { "filter": { "status": "failed", "createdAt": { "$gte": "{{since}}" } } },
+ *       "parameters": { "since": { "type": "date", "default": "-24h" } } } } }
+ *
+ * Templates are EJSON, so literals like {"$oid": "..."} keep their BSON types.
+ */
+export function savedQueriesFromEnv(env: NodeJS.ProcessEnv = process.env): SavedQuery[] {
+  const file = env.MONGODB_SAVED_QUERIES_FILE;
+  if (!file) return [];
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read saved queries ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!raw || typeof raw.queries !== "object" || Array.isArray(raw.queries)) {
+    throw new Error(`Saved queries ${file}: "queries" must be an object keyed by query name`);
+  }
+
+  return Object.entries(raw.queries as Record<string, any>).map(([name, query]) => validateQuery(name, query, file));
+}
+
+function validateQuery(name: string, query: any, source: string): SavedQuery {
+  const where = `Saved queries ${source}: query "${name}"`;
+  if (!/^[A-Za-z0-9_-]{1,64}$/.test(name) || name.startsWith("mongodb_")) {
+    throw new Error(`${where}: names use letters, digits, _ and - and cannot start with "mongodb_"`);
+  }
+  if (!query || typeof query !== "object") {
+    throw new Error(`${where} must be an object`);
+  }
+  if (typeof query.description !== "string" || typeof query.collection !== "string") {
+    throw new Error(`${where} needs a description and a collection`);
+  }
+  if ((query.find === undefined) === (query.aggregate === undefined)) {
+    throw new Error(`${where} needs exactly one of "find" or "aggregate"`);
+  }
+  if (query.aggregate !== undefined && !Array.isArray(query.aggregate)) {
+    throw new Error(`${where}: "aggregate" must be a pipeline array`);
+  }
+
+  const parameters: Record<string, SavedQueryParameter> = query.parameters ?? {};
+  for (const [param, spec] of Object.entries(parameters)) {
+    if (!spec || !PARAMETER_TYPES.includes(spec.type)) {
+      throw new Error(`${where}: parameter "${param}" needs a type (one of ${PARAMETER_TYPES.join(", ")})`);
+    }
+    if (spec.default !== undefined) {
+      try {
+        coerceParameter(param, spec, spec.default);
+      } catch (error) {
+        throw new Error(`${where}: default of ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  const template = BSON.EJSON.deserialize(query.find ?? query.aggregate, { relaxed: true });
+  const used = placeholders(template, where);
+  for (const param of used) {
+    if (!(param in parameters)) {
+      throw new Error(`${where}: placeholder {{${param}}} has no parameter definition`);
+    }
+  }
+  for (const param of Object.keys(parameters)) {
+    if (!used.has(param)) {
+      throw new Error(`${where}: parameter "${param}" is not used in the template`);
+    }
+  }
+
+  return {
+    name,
+    description: query.description,
+    collection: query.collection,
+    connection: query.connection,
+    database: query.database,
+    ...(query.find !== undefined ? { find: template } : { aggregate: template }),
+    parameters,
+  };
+}
+
+function placeholders(value: unknown, where: string, found = new Set<string>()): Set<string> {
+  if (typeof value === "string") {
+    const match = value.match(PLACEHOLDER);
+    if (match) {
+      found.add(match[1]);
+    } else if (EMBEDDED_PLACEHOLDER.test(value)) {
+      throw new Error(`${where}: "${value}" embeds a placeholder in text; placeholders must be the whole value`);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => placeholders(item, where, found));
+  } else if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    Object.values(value).forEach((child) => placeholders(child, where, found));
+  }
+  return found;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value === "number") return new Date(value);
+  if (typeof value !== "string") return undefined;
+  if (value === "now") return new Date();
+
+  const relative = value.trim().match(RELATIVE_DATE);
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    return new Date(Date.now() + (sign === "-" ? -1 : 1) * Number(amount) * UNIT_MS[unit]);
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Convert an argument to the parameter's BSON type. Dates accept ISO strings,
+ * epoch milliseconds, "now" and offsets like "-24h" or "-7d".
+ */
+export function coerceParameter(name: string, spec: SavedQueryParameter, value: unknown): unknown {
+  const fail = (): never => {
+    throw new Error(`parameter "${name}": ${JSON.stringify(value)} is not a valid ${spec.type}`);
+  };
+
+  let coerced: unknown;
+  switch (spec.type) {
+    case "string":
+      coerced = typeof value === "string" ? value : fail();
+      break;
+    case "number":
+    case "double": {
+      const number = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+      coerced = Number.isFinite(number) ? (spec.type === "double" ? new BSON.Double(number) : number) : fail();
+      break;
+    }
+    case "int": {
+      const number = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+      coerced = Number.isInteger(number) && Math.abs(number) <= 0x7fffffff ? new BSON.Int32(number) : fail();
+      break;
+    }
+    case "long":
+      coerced =
+        (typeof value === "number" && Number.isSafeInteger(value)) || (typeof value === "string" && /^-?\d+$/.test(value))
+          ? BSON.Long.fromString(String(value))
+          : fail();
+      break;
+    case "decimal":
+      coerced =
+        (typeof value === "number" && Number.isFinite(value)) || (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value))
+          ? BSON.Decimal128.fromString(String(value))
+          : fail();
+      break;
+    case "bool":
+      coerced = typeof value === "boolean" ? value : value === "true" ? true : value === "false" ? false : fail();
+      break;
+    case "date":
+      coerced = parseDate(value) ?? fail();
+      break;
+    case "objectId":
+      coerced = typeof value === "string" && /^[0-9a-fA-F]{24}$/.test(value) ? new BSON.ObjectId(value) : fail();
+      break;
+  }
+
+  if (spec.enum && !spec.enum.some((allowed) => allowed === value)) {
+    throw new Error(`parameter "${name}" must be one of ${spec.enum.map((allowed) => JSON.stringify(allowed)).join(", ")}`);
+  }
+  return coerced;
+}
+
+/**
+ * Replace each "{{param}}" value in the template with the typed argument (or default).
+ * Values are placed into the document structure; nothing is spliced into strings.
+ */
+export function bindParameters<T>(query: SavedQuery, template: T, args: Record<string, unknown>): T {
+  const values = new Map<string, unknown>();
+  for (const [name, spec] of Object.entries(query.parameters)) {
+    const value = args[name] ?? spec.default;
+    if (value === undefined) {
+      throw new Error(`Missing required parameter "${name}" for ${query.name}`);
+    }
+    values.set(name, coerceParameter(name, spec, value));
+  }
+
+  const bind = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const match = value.match(PLACEHOLDER);
+      return match ? values.get(match[1]) : value;
+    }
+    if (Array.isArray(value)) return value.map(bind);
+    if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, bind(child)]));
+    }
+    return value;
+  };
+  return bind(template) as T;
+}
+
+const JSON_SCHEMA_TYPES: Record<ParameterType, string> = {
+  string: "string",
+  number: "number",
+  int: "integer",
+  long: "string",
+  double: "number",
+  decimal: "string",
+  bool: "boolean",
+  date: "string",
+  objectId: "string",
+};
+
+/**
+ * Tool definition for a saved query: one property per parameter, plus a cursor for paging.
+ */
+export function savedQueryTool(query: SavedQuery) {
+  const properties: Record<string, Document> = {};
+  for (const [name, spec] of Object.entries(query.parameters)) {
+    const hint =
+      spec.type === "date"
+        ? " (ISO date, epoch milliseconds, \"now\" or an offset like \"-24h\")"
+        : spec.type === "objectId"
+        ? " (24-character hex ObjectId)"
+        : "";
+    properties[name] = {
+      type: JSON_SCHEMA_TYPES[spec.type],
+      description: `${spec.description ?? name}${hint}`,
+      ...(spec.default !== undefined ? { default: spec.default } : {}),
+      ...(spec.enum ? { enum: spec.enum } : {}),
+    };
+  }
+  properties.cursor = {
+    type: "string",
+    description: "Continuation token from a previous truncated response",
+  };
+
+  return {
+    name: query.name,
+    description: `${query.description} (saved ${query.find ? "query" : "aggregation"} on ${query.collection})`,
+    inputSchema: {
+      type: "object",
+      properties,
+      required: Object.entries(query.parameters)
+        .filter(([, spec]) => spec.default === undefined)
+        .map(([name]) => name),
+    },
+  };
+}
@@ -0,0 +1,254 @@
+// Sample-based schema inference with nested paths and per-type frequencies
+import { Collection, Document } from "mongodb";
+
+export interface TypeFrequency {
+  type: string;
+  count: number;
+  percentage: number;
+}
+
+export interface FieldSchema {
+  path: string;
+  // Fraction of sampled documents containing the path
+  presence: number;
+  required: boolean;
+  types: TypeFrequency[];
+  // Element types of array values, when the field holds arrays
+  arrayItemTypes?: TypeFrequency[];
+  examples: unknown[];
+}
+
+export interface SchemaAnalysis {
+  documentsSampled: number;
+  fields: FieldSchema[];
+}
+
+interface FieldAccumulator {
+  documents: number;
+  types: Map<string, number>;
+  arrayItemTypes: Map<string, number>;
+  examples: unknown[];
+}
+
+const MAX_EXAMPLES = 3;
+const MAX_DEPTH = 20;
+
+/**
+ * Draw a random sample with $sample. Numeric wrappers are kept (promoteValues: false)
+ * so int, long and double can be told apart.
+ */
+export async function sampleDocuments(collection: Collection, size: number, maxTimeMS?: number): Promise<Document[]> {
+  return collection.aggregate([{ $sample: { size } }], { promoteValues: false, maxTimeMS }).toArray();
+}
+
+/**
+ * Name of the BSON type of a deserialized value, using $type aliases.
+ */
+export function bsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  if (value instanceof RegExp) return "regex";
+
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "boolean":
+      return "bool";
+    case "number":
+      return Number.isInteger(value) && Math.abs(value) <= 0x7fffffff ? "int" : "double";
+    case "bigint":
+      return "long";
+  }
+
+  switch ((value as { _bsontype?: string })._bsontype) {
+    case "ObjectId":
+      return "objectId";
+    case "Int32":
+      return "int";
+    case "Double":
+      return "double";
+    case "Long":
+      return "long";
+    case "Decimal128":
+      return "decimal";
+    case "Binary":
+      return "binData";
+    case "Timestamp":
+      return "timestamp";
+    case "BSONRegExp":
+      return "regex";
+    case "Code":
+      return "javascript";
+    case "BSONSymbol":
+      return "symbol";
+    case "MinKey":
+      return "minKey";
+    case "MaxKey":
+      return "maxKey";
+    case "DBRef":
+      return "dbPointer";
+  }
+
+  return "object";
+}
+
+function isDocument(value: unknown): value is Record<string, unknown> {
+  return bsonTypeOf(value) === "object";
+}
+
+function frequencies(counts: Map<string, number>): TypeFrequency[] {
+  const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  return [...counts.entries()]
+    .map(([type, count]) => ({
+      type,
+      count,
+      percentage: total === 0 ? 0 : Math.round((count / total) * 10000) / 100,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Walk every document, recording each dotted path it contains. Sub-documents
+ * inside arrays contribute to the same path as a plain sub-document would
+ * (items.sku), matching MongoDB query semantics.
+ */
+export function analyzeDocuments(documents: Document[]): SchemaAnalysis {
+  const fields = new Map<string, FieldAccumulator>();
+
+  const field = (path: string): FieldAccumulator => {
+    let acc = fields.get(path);
+    if (!acc) {
+      acc = { documents: 0, types: new Map(), arrayItemTypes: new Map(), examples: [] };
+      fields.set(path, acc);
+    }
+    return acc;
+  };
+
+  const increment = (counts: Map<string, number>, type: string) => {
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  };
+
+  for (const doc of documents) {
+    const seen = new Set<string>();
+
+    const visit = (value: Record<string, unknown>, prefix: string, depth: number) => {
+      if (depth > MAX_DEPTH) return;
+
+      for (const [key, child] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        const acc = field(path);
+        const type = bsonTypeOf(child);
+
+        if (!seen.has(path)) {
+          seen.add(path);
+          acc.documents++;
+        }
+        increment(acc.types, type);
+
+        if (type !== "object" && type !== "array" && child !== null && acc.examples.length < MAX_EXAMPLES) {
+          acc.examples.push(child);
+        }
+
+        if (type === "object") {
+          visit(child as Record<string, unknown>, path, depth + 1);
+        } else if (type === "array") {
+          for (const item of child as unknown[]) {
+            increment(acc.arrayItemTypes, bsonTypeOf(item));
+            if (isDocument(item)) {
+              visit(item, path, depth + 1);
+            }
+          }
+        }
+      }
+    };
+
+    visit(doc, "", 0);
+  }
+
+  const total = documents.length;
+  return {
+    documentsSampled: total,
+    fields: [...fields.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([path, acc]) => {
+        const presence = total === 0 ? 0 : Math.round((acc.documents / total) * 10000) / 10000;
+        return {
+          path,
+          presence,
+          required: acc.documents === total,
+          types: frequencies(acc.types),
+          ...(acc.arrayItemTypes.size > 0 ? { arrayItemTypes: frequencies(acc.arrayItemTypes) } : {}),
+          examples: acc.examples,
+        };
+      }),
+  };
+}
+
+interface JSONSchemaNode {
+  bsonType?: string | string[];
+  properties?: Record<string, JSONSchemaNode>;
+  required?: string[];
+  items?: JSONSchemaNode;
+}
+
+function bsonTypeList(types: TypeFrequency[]): string | string[] {
+  const names = types.map((t) => t.type);
+  return names.length === 1 ? names[0] : names;
+}
+
+/**
+ * Render an analysis as a MongoDB $jsonSchema document (bsonType dialect), usable
+ * as a collection validator. A field is required when it appears in every
+ * sampled document that contains its parent.
+ */
+export function toJSONSchema(analysis: SchemaAnalysis): JSONSchemaNode {
+  const root: JSONSchemaNode = { bsonType: "object", properties: {}, required: [] };
+  const nodes = new Map<string, JSONSchemaNode>();
+  const presence = new Map(analysis.fields.map((f) => [f.path, f.presence]));
+
+  for (const field of analysis.fields) {
+    const segments = field.path.split(".");
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join(".");
+    const parentNode = parentPath ? nodes.get(parentPath) : root;
+    if (!parentNode) continue;
+    // Children of an array field describe its document items
+    const parent = parentNode.items ?? parentNode;
+
+    const node: JSONSchemaNode = { bsonType: bsonTypeList(field.types) };
+    const types = field.types.map((t) => t.type);
+
+    if (types.includes("array")) {
+      const itemTypes = field.arrayItemTypes ?? [];
+      node.items = itemTypes.length === 0 ? {} : { bsonType: bsonTypeList(itemTypes) };
+      if (itemTypes.some((t) => t.type === "object")) {
+        node.items.properties = {};
+        node.items.required = [];
+      }
+    } else if (types.includes("object")) {
+      node.properties = {};
+      node.required = [];
+    }
+
+    parent.properties = parent.properties ?? {};
+    parent.properties[name] = node;
+
+    const parentPresence = parentPath ? presence.get(parentPath) ?? 1 : 1;
+    if (field.presence >= parentPresence) {
+      parent.required = parent.required ?? [];
+      parent.required.push(name);
+    }
+    nodes.set(field.path, node);
+  }
+
+  const prune = (node: JSONSchemaNode) => {
+    if (node.required && node.required.length === 0) delete node.required;
+    if (node.properties) Object.values(node.properties).forEach(prune);
+    if (node.items) prune(node.items);
+  };
+  prune(root);
+
+  return root;
+}
@@ -0,0 +1,257 @@
+// $text and geospatial query building from a collection's indexes, with term highlighting for text results
+import { Document } from "mongodb";
+
+export class MissingIndexError extends Error {
+  constructor(
+    message: string,
+    public readonly indexType: "text" | "2dsphere",
+    public readonly suggestion: string
+  ) {
+    super(message);
+    this.name = "MissingIndexError";
+  }
+}
+
+export interface TextIndex {
+  name: string;
+  // Indexed field paths; ["$**"] for a wildcard text index
+  fields: string[];
+  defaultLanguage?: string;
+}
+
+export interface TextSearchOptions {
+  language?: string;
+  caseSensitive?: boolean;
+  diacriticSensitive?: boolean;
+}
+
+export interface Highlight {
+  field: string;
+  // Text around the first match with every matched term wrapped in **
+  snippet: string;
+}
+
+export interface GeoNear {
+  longitude: number;
+  latitude: number;
+  maxDistanceMeters?: number;
+  minDistanceMeters?: number;
+}
+
+// Positions are [longitude, latitude], as in GeoJSON
+export type GeoArea =
+  | { polygon: [number, number][] }
+  | { box: { southWest: [number, number]; northEast: [number, number] } };
+
+interface IndexDescription {
+  name?: string;
+  key: Document;
+  weights?: Document;
+  default_language?: string;
+}
+
+// Fields the text score and geo distance are returned in before results are reshaped
+export const TEXT_SCORE_FIELD = "__textScore";
+export const GEO_DISTANCE_FIELD = "__geoDistance";
+
+const SNIPPET_CONTEXT = 40;
+const MAX_HIGHLIGHTS = 3;
+
+/**
+ * The collection's text index (there can be at most one). Text indexes list
+ * "_fts": "text" in their key and the indexed fields in their weights.
+ */
+export function textIndexOf(indexes: IndexDescription[]): TextIndex | undefined {
+  const index = indexes.find((i) => i.key._fts === "text");
+  if (!index) return undefined;
+  return {
+    name: index.name ?? "",
+    fields: Object.keys(index.weights ?? {}),
+    defaultLanguage: index.default_language,
+  };
+}
+
+export function missingTextIndex(collection: string): MissingIndexError {
+  return new MissingIndexError(
+    `Collection "${collection}" has no text index, which $text search requires`,
+    "text",
+    `Create one on the fields to search, e.g. db.${collection}.createIndex({"title": "text", "body": "text"}), ` +
+      "or use mongodb_query with a $regex filter for small collections"
+  );
+}
+
+export function textFilter(query: string, options: TextSearchOptions): Document {
+  return {
+    $text: {
+      $search: query,
+      ...(options.language ? { $language: options.language } : {}),
+      ...(options.caseSensitive !== undefined ? { $caseSensitive: options.caseSensitive } : {}),
+      ...(options.diacriticSensitive !== undefined ? { $diacriticSensitive: options.diacriticSensitive } : {}),
+    },
+  };
+}
+
+/**
+ * Terms and quoted phrases of a $text search string, without negated (-term) words.
+ */
+export function searchTerms(query: string): string[] {
+  const phrases = [...query.matchAll(/"([^"]+)"/g)].map((match) => match[1].trim()).filter(Boolean);
+  const words = query
+    .replace(/"[^"]*"/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !word.startsWith("-"));
+  return [...new Set([...phrases, ...words])];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function stringValues(value: unknown, path: string, out: { field: string; text: string }[]) {
+  if (typeof value === "string") {
+    out.push({ field: path, text: value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => stringValues(item, path, out));
+  } else if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    for (const [key, child] of Object.entries(value)) {
+      stringValues(child, path ? `${path}.${key}` : key, out);
+    }
+  }
+}
+
+/**
+ * Snippets of the indexed string fields that contain a search term. Matching is by
+ * word prefix, a rough stand-in for the server's stemming, so "run" marks "running".
+ */
+export function highlightMatches(
+  document: Document,
+  index: TextIndex,
+  terms: string[],
+  caseSensitive = false
+): Highlight[] {
+  if (terms.length === 0) return [];
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`,
+    caseSensitive ? "gu" : "giu"
+  );
+
+  const values: { field: string; text: string }[] = [];
+  if (index.fields.includes("$**")) {
+    stringValues(document, "", values);
+  } else {
+    for (const field of index.fields) {
+      stringValues(
+        field.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], document),
+        field,
+        values
+      );
+    }
+  }
+
+  const highlights: Highlight[] = [];
+  for (const { field, text } of values) {
+    const first = text.search(pattern);
+    if (first < 0) continue;
+    const start = Math.max(0, first - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, first + SNIPPET_CONTEXT * 2);
+    const snippet = text.slice(start, end).replace(pattern, (match) => `**${match}**`);
+    highlights.push({ field, snippet: `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}` });
+    if (highlights.length === MAX_HIGHLIGHTS) break;
+  }
+  return highlights;
+}
+
+/**
+ * Fields with a 2dsphere index, in index order.
+ */
+export function geoIndexFields(indexes: IndexDescription[]): string[] {
+  const fields = indexes.flatMap((index) =>
+    Object.entries(index.key)
+      .filter(([, type]) => type === "2dsphere")
+      .map(([field]) => field)
+  );
+  return [...new Set(fields)];
+}
+
+/**
+ * The field to query: the given one, or the only 2dsphere-indexed field.
+ * $geoNear needs a 2dsphere index on the field; $geoWithin works without one.
+ */
+export function resolveGeoField(collection: string, indexedFields: string[], field?: string, near = false): string {
+  if (field) {
+    if (near && !indexedFields.includes(field)) {
+      throw new MissingIndexError(
+        `Field "${field}" of collection "${collection}" has no 2dsphere index, which near queries require`,
+        "2dsphere",
+        `Create one with db.${collection}.createIndex({"${field}": "2dsphere"})`
+      );
+    }
+    return field;
+  }
+  if (indexedFields.length === 0) {
+    throw new MissingIndexError(
+      `Collection "${collection}" has no 2dsphere index to find the location field from`,
+      "2dsphere",
+      `Create one with db.${collection}.createIndex({"location": "2dsphere"}) on the GeoJSON field, ` +
+        "or pass field for polygon and box queries"
+    );
+  }
+  if (indexedFields.length > 1) {
+    throw new Error(`Collection "${collection}" has several 2dsphere fields (${indexedFields.join(", ")}); pass field`);
+  }
+  return indexedFields[0];
+}
+
+/**
+ * $geoWithin condition for a polygon (closed automatically) or a bounding box,
+ * both as GeoJSON so they work on 2dsphere-indexed GeoJSON points.
+ */
+export function geoWithinFilter(field: string, shape: GeoArea): Document {
+  let ring: [number, number][];
+  if ("box" in shape) {
+    const [west, south] = shape.box.southWest;
+    const [east, north] = shape.box.northEast;
+    ring = [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+    ];
+  } else {
+    ring = [...shape.polygon];
+  }
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first);
+
+  return { [field]: { $geoWithin: { $geometry: { type: "Polygon", coordinates: [ring] } } } };
+}
+
+/**
+ * $geoNear stage writing the distance in meters to distanceField. It must be the
+ * first stage of the pipeline; the extra filter runs as its query.
+ */
+export function geoNearStage(
+  field: string,
+  near: GeoNear,
+  query: Document,
+  distanceField: string
+): Document {
+  return {
+    $geoNear: {
+      near: { type: "Point", coordinates: [near.longitude, near.latitude] },
+      key: field,
+      distanceField,
+      spherical: true,
+      query,
+      ...(near.maxDistanceMeters !== undefined ? { maxDistance: near.maxDistanceMeters } : {}),
+      ...(near.minDistanceMeters !== undefined ? { minDistance: near.minDistanceMeters } : {}),
+    },
+  };
+}
+
+/**
+ * Whether a projection lists the fields to keep rather than the ones to drop.
+ */
+export function isInclusionProjection(projection: Document): boolean {
+  return Object.entries(projection).some(([field, value]) => field !== "_id" && value !== 0 && value !== false);
+}
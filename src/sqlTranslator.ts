@@ -0,0 +1,874 @@
+// Translation of a subset of SQL SELECT into a MongoDB find or aggregation pipeline
+import { Document, ObjectId } from "mongodb";
+
+export class SqlSyntaxError extends Error {
+  constructor(
+    message: string,
+    // Offset in the SQL text, when the error is tied to a token
+    public readonly position?: number
+  ) {
+    super(position === undefined ? message : `${message} (at position ${position})`);
+    this.name = "SqlSyntaxError";
+  }
+}
+
+export interface FindTranslation {
+  filter: Document;
+  projection?: Document;
+  sort?: Document;
+  skip?: number;
+  limit?: number;
+}
+
+export interface SqlTranslation {
+  collection: string;
+  // "find" when the statement maps onto a plain find; the pipeline is its aggregation equivalent
+  kind: "find" | "aggregate";
+  find?: FindTranslation;
+  pipeline: Document[];
+}
+
+type Token =
+  | { kind: "keyword" | "identifier" | "symbol" | "string"; value: string; position: number }
+  | { kind: "number"; value: number; position: number };
+
+const KEYWORDS = new Set([
+  "SELECT", "DISTINCT", "FROM", "WHERE", "AND", "OR", "NOT", "IN", "LIKE", "BETWEEN", "IS", "NULL",
+  "TRUE", "FALSE", "GROUP", "BY", "HAVING", "ORDER", "ASC", "DESC", "LIMIT", "OFFSET", "AS", "JOIN",
+  "INNER", "LEFT", "OUTER", "ON",
+]);
+
+const AGGREGATE_FUNCTIONS = ["COUNT", "SUM", "AVG", "MIN", "MAX"] as const;
+type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number];
+
+type CompareOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+interface Literal {
+  kind: "literal";
+  value: unknown;
+}
+
+interface Column {
+  kind: "column";
+  // Dotted name as written; the first segment may be a table name or alias
+  segments: string[];
+  position: number;
+}
+
+interface Aggregate {
+  kind: "aggregate";
+  fn: AggregateFunction;
+  // Absent for COUNT(*)
+  argument?: Column;
+  distinct: boolean;
+}
+
+type Operand = Literal | Column | Aggregate;
+
+type Condition =
+  | { kind: "and" | "or"; conditions: Condition[] }
+  | { kind: "not"; condition: Condition }
+  | { kind: "compare"; operator: CompareOperator; left: Operand; right: Operand }
+  | { kind: "in"; operand: Operand; values: unknown[]; negated: boolean }
+  | { kind: "like"; operand: Operand; pattern: string; negated: boolean }
+  | { kind: "between"; operand: Operand; low: unknown; high: unknown; negated: boolean }
+  | { kind: "isNull"; operand: Operand; negated: boolean };
+
+type SelectItem = { kind: "star" } | { kind: "expression"; expression: Column | Aggregate; alias?: string };
+
+interface TableReference {
+  collection: string;
+  alias: string;
+}
+
+interface Join {
+  table: TableReference;
+  left: boolean;
+  on: Condition;
+}
+
+interface SelectStatement {
+  distinct: boolean;
+  items: SelectItem[];
+  from: TableReference;
+  joins: Join[];
+  where?: Condition;
+  groupBy: Column[];
+  having?: Condition;
+  orderBy: { operand: Column | Aggregate; direction: 1 | -1 }[];
+  limit?: number;
+  offset?: number;
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (sql.startsWith("--", i)) {
+      while (i < sql.length && sql[i] !== "\n") i++;
+      continue;
+    }
+
+    const start = i;
+    if (char === "'") {
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= sql.length) throw new SqlSyntaxError("Unterminated string literal", start);
+        if (sql[i] === "'" && sql[i + 1] === "'") {
+          value += "'";
+          i += 2;
+        } else if (sql[i] === "'") {
+          i++;
+          break;
+        } else {
+          value += sql[i++];
+        }
+      }
+      tokens.push({ kind: "string", value, position: start });
+    } else if (char === '"' || char === "`") {
+      const end = sql.indexOf(char, i + 1);
+      if (end < 0) throw new SqlSyntaxError("Unterminated quoted identifier", start);
+      tokens.push({ kind: "identifier", value: sql.slice(i + 1, end), position: start });
+      i = end + 1;
+    } else if (/[0-9]/.test(char)) {
+      const match = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(sql.slice(i))!;
+      tokens.push({ kind: "number", value: Number(match[0]), position: start });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(sql.slice(i))!;
+      const upper = match[0].toUpperCase();
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { kind: "keyword", value: upper, position: start }
+          : { kind: "identifier", value: match[0], position: start }
+      );
+      i += match[0].length;
+    } else {
+      const symbol = ["<=", ">=", "<>", "!="].find((s) => sql.startsWith(s, i)) ?? char;
+      if (!["<=", ">=", "<>", "!=", "=", "<", ">", "(", ")", ",", ".", "*", ";", "-"].includes(symbol)) {
+        throw new SqlSyntaxError(`Unexpected character "${char}"`, start);
+      }
+      tokens.push({ kind: "symbol", value: symbol === "<>" ? "!=" : symbol, position: start });
+      i += symbol.length;
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private tokens: Token[],
+    private length: number
+  ) {}
+
+  parseSelect(): SelectStatement {
+    this.expectKeyword("SELECT");
+    const distinct = this.acceptKeyword("DISTINCT");
+    const items = this.parseList(() => this.parseSelectItem());
+
+    this.expectKeyword("FROM");
+    const from = this.parseTable();
+    const joins: Join[] = [];
+    for (;;) {
+      const left = this.acceptKeyword("LEFT");
+      if (left) this.acceptKeyword("OUTER");
+      else this.acceptKeyword("INNER");
+      if (!this.acceptKeyword("JOIN")) {
+        if (left) this.fail("Expected JOIN after LEFT");
+        break;
+      }
+      const table = this.parseTable();
+      this.expectKeyword("ON");
+      joins.push({ table, left, on: this.parseCondition() });
+    }
+
+    const where = this.acceptKeyword("WHERE") ? this.parseCondition() : undefined;
+    let groupBy: Column[] = [];
+    if (this.acceptKeyword("GROUP")) {
+      this.expectKeyword("BY");
+      groupBy = this.parseList(() => this.parseColumn());
+    }
+    const having = this.acceptKeyword("HAVING") ? this.parseCondition() : undefined;
+
+    const orderBy: SelectStatement["orderBy"] = [];
+    if (this.acceptKeyword("ORDER")) {
+      this.expectKeyword("BY");
+      orderBy.push(
+        ...this.parseList(() => {
+          const operand = this.parseColumnOrAggregate();
+          if (this.acceptKeyword("DESC")) return { operand, direction: -1 as const };
+          this.acceptKeyword("ASC");
+          return { operand, direction: 1 as const };
+        })
+      );
+    }
+
+    let limit: number | undefined;
+    let offset: number | undefined;
+    if (this.acceptKeyword("LIMIT")) {
+      let countToken = this.peek();
+      limit = this.parseCount("LIMIT");
+      if (this.acceptSymbol(",")) {
+        // MySQL form: LIMIT offset, count
+        offset = limit;
+        countToken = this.peek();
+        limit = this.parseCount("LIMIT");
+      }
+      // The server rejects {$limit: 0}, and a find limit of 0 means no limit at all
+      if (limit === 0) this.fail("LIMIT needs a positive integer", countToken);
+    }
+    if (this.acceptKeyword("OFFSET")) offset = this.parseCount("OFFSET");
+
+    this.acceptSymbol(";");
+    if (this.peek()) this.fail(`Unexpected "${this.peek()!.value}"`);
+    return { distinct, items, from, joins, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  private parseSelectItem(): SelectItem {
+    if (this.acceptSymbol("*")) return { kind: "star" };
+    const expression = this.parseColumnOrAggregate();
+    if (expression.kind === "column" && this.peekSymbol(".") && this.tokens[this.index + 1]?.value === "*") {
+      this.fail("Qualified * (table.*) is not supported; list the columns or use *");
+    }
+    const alias = this.acceptKeyword("AS") ? this.expectIdentifier() : this.acceptIdentifier();
+    return { kind: "expression", expression, alias };
+  }
+
+  private parseTable(): TableReference {
+    const collection = this.parseDottedName();
+    const alias = this.acceptKeyword("AS") ? this.expectIdentifier() : this.acceptIdentifier();
+    return { collection, alias: alias ?? collection };
+  }
+
+  private parseCondition(): Condition {
+    const conditions = [this.parseAnd()];
+    while (this.acceptKeyword("OR")) conditions.push(this.parseAnd());
+    return conditions.length === 1 ? conditions[0] : { kind: "or", conditions };
+  }
+
+  private parseAnd(): Condition {
+    const conditions = [this.parseNot()];
+    while (this.acceptKeyword("AND")) conditions.push(this.parseNot());
+    return conditions.length === 1 ? conditions[0] : { kind: "and", conditions };
+  }
+
+  private parseNot(): Condition {
+    if (this.acceptKeyword("NOT")) return { kind: "not", condition: this.parseNot() };
+    if (this.acceptSymbol("(")) {
+      const condition = this.parseCondition();
+      this.expectSymbol(")");
+      return condition;
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Condition {
+    const operand = this.parseOperand();
+
+    if (this.acceptKeyword("IS")) {
+      const negated = this.acceptKeyword("NOT");
+      this.expectKeyword("NULL");
+      return { kind: "isNull", operand, negated };
+    }
+
+    const negated = this.acceptKeyword("NOT");
+    if (this.acceptKeyword("IN")) {
+      this.expectSymbol("(");
+      const values = this.parseList(() => this.parseLiteral().value);
+      this.expectSymbol(")");
+      return { kind: "in", operand, values, negated };
+    }
+    if (this.acceptKeyword("LIKE")) {
+      const token = this.next();
+      if (token?.kind !== "string") this.fail("LIKE needs a string pattern", token);
+      return { kind: "like", operand, pattern: token.value as string, negated };
+    }
+    if (this.acceptKeyword("BETWEEN")) {
+      const low = this.parseLiteral().value;
+      this.expectKeyword("AND");
+      const high = this.parseLiteral().value;
+      return { kind: "between", operand, low, high, negated };
+    }
+    if (negated) this.fail("Expected IN, LIKE or BETWEEN after NOT");
+
+    const token = this.next();
+    if (token?.kind !== "symbol" || !["=", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      this.fail("Expected a comparison operator", token);
+    }
+    return { kind: "compare", operator: token.value as CompareOperator, left: operand, right: this.parseOperand() };
+  }
+
+  private parseOperand(): Operand {
+    const token = this.peek();
+    if (
+      token &&
+      (token.kind === "number" ||
+        token.kind === "string" ||
+        (token.kind === "symbol" && token.value === "-") ||
+        (token.kind === "keyword" && ["NULL", "TRUE", "FALSE"].includes(token.value)) ||
+        (token.kind === "identifier" && /^(date|timestamp|objectid)$/i.test(token.value) && this.isLiteralFunction()))
+    ) {
+      return this.parseLiteral();
+    }
+    return this.parseColumnOrAggregate();
+  }
+
+  // DATE '2024-01-01', TIMESTAMP '...' and ObjectId('...')
+  private isLiteralFunction(): boolean {
+    const following = this.tokens[this.index + 1];
+    return following?.kind === "string" || (following?.kind === "symbol" && following.value === "(");
+  }
+
+  private parseLiteral(): Literal {
+    const token = this.next();
+    if (!token) this.fail("Expected a value");
+    if (token.kind === "number") return { kind: "literal", value: token.value };
+    if (token.kind === "string") return { kind: "literal", value: token.value };
+    if (token.kind === "symbol" && token.value === "-") {
+      const number = this.next();
+      if (number?.kind !== "number") this.fail("Expected a number after -", number);
+      return { kind: "literal", value: -number.value };
+    }
+    if (token.kind === "keyword" && token.value === "NULL") return { kind: "literal", value: null };
+    if (token.kind === "keyword" && (token.value === "TRUE" || token.value === "FALSE")) {
+      return { kind: "literal", value: token.value === "TRUE" };
+    }
+    if (token.kind === "identifier" && /^(date|timestamp|objectid)$/i.test(token.value)) {
+      const parenthesized = this.acceptSymbol("(");
+      const text = this.next();
+      if (text?.kind !== "string") this.fail(`${token.value} needs a string`, text);
+      if (parenthesized) this.expectSymbol(")");
+      const value = text.value as string;
+      if (/^objectid$/i.test(token.value)) {
+        if (!ObjectId.isValid(value) || value.length !== 24) this.fail(`Invalid ObjectId "${value}"`, text);
+        return { kind: "literal", value: new ObjectId(value) };
+      }
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) this.fail(`Invalid date "${value}"`, text);
+      return { kind: "literal", value: date };
+    }
+    this.fail("Expected a value", token);
+  }
+
+  private parseColumnOrAggregate(): Column | Aggregate {
+    const token = this.peek();
+    const fn = token?.kind === "identifier" ? token.value.toUpperCase() : undefined;
+    if (fn && (AGGREGATE_FUNCTIONS as readonly string[]).includes(fn) && this.tokens[this.index + 1]?.value === "(") {
+      this.index += 2;
+      const distinct = this.acceptKeyword("DISTINCT");
+      let argument: Column | undefined;
+      if (this.acceptSymbol("*")) {
+        if (fn !== "COUNT" || distinct) this.fail(`${fn}(*) is not supported`, token);
+      } else {
+        argument = this.parseColumn();
+      }
+      this.expectSymbol(")");
+      return { kind: "aggregate", fn: fn as AggregateFunction, argument, distinct };
+    }
+    return this.parseColumn();
+  }
+
+  private parseColumn(): Column {
+    const position = this.peek()?.position ?? this.length;
+    const segments = [this.expectIdentifier()];
+    while (this.peekSymbol(".") && this.tokens[this.index + 1]?.kind === "identifier") {
+      this.index++;
+      segments.push(this.expectIdentifier());
+    }
+    return { kind: "column", segments, position };
+  }
+
+  private parseDottedName(): string {
+    return this.parseColumn().segments.join(".");
+  }
+
+  private parseCount(clause: string): number {
+    const token = this.next();
+    if (token?.kind !== "number" || !Number.isInteger(token.value) || token.value < 0) {
+      this.fail(`${clause} needs a non-negative integer`, token);
+    }
+    return token.value as number;
+  }
+
+  private parseList<T>(parseItem: () => T): T[] {
+    const items = [parseItem()];
+    while (this.acceptSymbol(",")) items.push(parseItem());
+    return items;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private peekSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.kind === "symbol" && token.value === symbol;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.peekSymbol(symbol)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string) {
+    if (!this.acceptSymbol(symbol)) this.fail(`Expected "${symbol}"`);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.kind !== "keyword" || token.value !== keyword) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.acceptKeyword(keyword)) this.fail(`Expected ${keyword}`);
+  }
+
+  private acceptIdentifier(): string | undefined {
+    const token = this.peek();
+    if (token?.kind !== "identifier") return undefined;
+    this.index++;
+    return token.value;
+  }
+
+  private expectIdentifier(): string {
+    const identifier = this.acceptIdentifier();
+    if (identifier === undefined) this.fail("Expected a name");
+    return identifier;
+  }
+
+  private fail(message: string, token: Token | undefined = this.peek()): never {
+    const found = token ? ` but found "${token.value}"` : " but the statement ended";
+    throw new SqlSyntaxError(`${message}${message.startsWith("Expected") ? found : ""}`, token?.position ?? this.length);
+  }
+}
+
+/**
+ * Resolves column names to document paths: "o.total" is "total" in the FROM
+ * collection aliased o, "c.name" is "c.name" for the collection joined as c,
+ * and unqualified names are fields of the FROM collection.
+ */
+class Scope {
+  private joined = new Set<string>();
+
+  constructor(private from: TableReference) {}
+
+  addJoin(table: TableReference) {
+    if (this.isFrom(table.alias) || this.joined.has(table.alias)) {
+      throw new SqlSyntaxError(`Table name or alias "${table.alias}" is used twice; give the join an alias`);
+    }
+    this.joined.add(table.alias);
+  }
+
+  // The table a column belongs to: the FROM alias or a join alias
+  tableOf(column: Column): string {
+    const [first] = column.segments;
+    if (column.segments.length > 1 && this.joined.has(first)) return first;
+    return this.from.alias;
+  }
+
+  path(column: Column): string {
+    const [first, ...rest] = column.segments;
+    if (rest.length > 0 && (this.isFrom(first) || this.joined.has(first))) {
+      return this.joined.has(first) ? column.segments.join(".") : rest.join(".");
+    }
+    return column.segments.join(".");
+  }
+
+  private isFrom(name: string): boolean {
+    return name === this.from.alias || name === this.from.collection;
+  }
+}
+
+const COMPARISON_OPERATORS: Record<CompareOperator, string> = {
+  "=": "$eq",
+  "!=": "$ne",
+  "<": "$lt",
+  "<=": "$lte",
+  ">": "$gt",
+  ">=": "$gte",
+};
+
+const NEGATED: Record<CompareOperator, CompareOperator> = {
+  "=": "!=",
+  "!=": "=",
+  "<": ">=",
+  "<=": ">",
+  ">": "<=",
+  ">=": "<",
+};
+
+const FLIPPED: Record<CompareOperator, CompareOperator> = {
+  "=": "=",
+  "!=": "!=",
+  "<": ">",
+  "<=": ">=",
+  ">": "<",
+  ">=": "<=",
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * LIKE pattern as an anchored regular expression: % is any run of characters and _ one character.
+ */
+export function likeToRegex(pattern: string): string {
+  const body = [...pattern].map((char) => (char === "%" ? ".*" : char === "_" ? "." : escapeRegExp(char))).join("");
+  return `^${body}$`.replace(/^\^\.\*/, "").replace(/\.\*\$$/, "");
+}
+
+function and(filters: Document[]): Document {
+  const nonEmpty = filters.filter((filter) => Object.keys(filter).length > 0);
+  if (nonEmpty.length === 0) return {};
+  if (nonEmpty.length === 1) return nonEmpty[0];
+  // Merge into one document when no key repeats, which reads more naturally than $and
+  const keys = nonEmpty.flatMap((filter) => Object.keys(filter));
+  return new Set(keys).size === keys.length ? Object.assign({}, ...nonEmpty) : { $and: nonEmpty };
+}
+
+/**
+ * NOT of a condition, pushed down to the comparisons. In SQL a comparison with
+ * NULL is unknown and so is its NOT, so NOT a = 1 must not match documents where
+ * a is null or missing, as {$nor: [{a: 1}]} would.
+ */
+function negate(condition: Condition): Condition {
+  switch (condition.kind) {
+    case "and":
+      return { kind: "or", conditions: condition.conditions.map(negate) };
+    case "or":
+      return { kind: "and", conditions: condition.conditions.map(negate) };
+    case "not":
+      return condition.condition;
+    case "compare":
+      return { ...condition, operator: NEGATED[condition.operator] };
+    default:
+      return { ...condition, negated: !condition.negated };
+  }
+}
+
+/**
+ * Query filter for a condition. resolve maps a column or aggregate to the
+ * document path it is stored at in the documents being matched. Negated
+ * conditions exclude null and missing values, following SQL's NULL semantics.
+ */
+function translateCondition(condition: Condition, resolve: (operand: Column | Aggregate) => string): Document {
+  const path = (operand: Operand): string => {
+    if (operand.kind === "literal") throw new SqlSyntaxError("Conditions must compare a column with a value");
+    return resolve(operand);
+  };
+
+  switch (condition.kind) {
+    case "and":
+      return and(condition.conditions.map((c) => translateCondition(c, resolve)));
+    case "or":
+      return { $or: condition.conditions.map((c) => translateCondition(c, resolve)) };
+    case "not":
+      return translateCondition(negate(condition.condition), resolve);
+    case "compare": {
+      let { operator, left, right } = condition;
+      if (left.kind === "literal" && right.kind !== "literal") {
+        [left, right] = [right, left];
+        operator = FLIPPED[operator];
+      }
+      if (right.kind !== "literal") {
+        // Column against column; $expr compares null and missing values where SQL would not
+        return and([
+          { [path(left)]: { $ne: null } },
+          { [path(right)]: { $ne: null } },
+          { $expr: { [COMPARISON_OPERATORS[operator]]: [`$${path(left)}`, `$${path(right)}`] } },
+        ]);
+      }
+      if (operator === "=") return { [path(left)]: right.value };
+      if (operator === "!=") return { [path(left)]: { $nin: [right.value, null] } };
+      return { [path(left)]: { [COMPARISON_OPERATORS[operator]]: right.value } };
+    }
+    case "in":
+      return {
+        [path(condition.operand)]: condition.negated ? { $nin: [...condition.values, null] } : { $in: condition.values },
+      };
+    case "like": {
+      const regex = { $regex: likeToRegex(condition.pattern) };
+      return { [path(condition.operand)]: condition.negated ? { $not: regex, $ne: null } : regex };
+    }
+    case "between": {
+      const range = { $gte: condition.low, $lte: condition.high };
+      return { [path(condition.operand)]: condition.negated ? { $not: range, $ne: null } : range };
+    }
+    case "isNull":
+      return { [path(condition.operand)]: condition.negated ? { $ne: null } : null };
+  }
+}
+
+function conjuncts(condition: Condition | undefined): Condition[] {
+  if (!condition) return [];
+  return condition.kind === "and" ? condition.conditions.flatMap(conjuncts) : [condition];
+}
+
+function columnsOf(condition: Condition): (Column | Aggregate)[] {
+  switch (condition.kind) {
+    case "and":
+    case "or":
+      return condition.conditions.flatMap(columnsOf);
+    case "not":
+      return columnsOf(condition.condition);
+    case "compare":
+      return [condition.left, condition.right].filter((o): o is Column | Aggregate => o.kind !== "literal");
+    default:
+      return condition.operand.kind === "literal" ? [] : [condition.operand];
+  }
+}
+
+function fieldName(path: string): string {
+  return path.replace(/\./g, "_").replace(/^\$/, "");
+}
+
+function lookupStages(join: Join, scope: Scope): Document[] {
+  const { on, table, left } = join;
+  if (on.kind !== "compare" || on.operator !== "=" || on.left.kind !== "column" || on.right.kind !== "column") {
+    throw new SqlSyntaxError(`JOIN ${table.alias} needs an ON condition of the form a.field = b.field`);
+  }
+  const [joined, other] =
+    scope.tableOf(on.right) === table.alias ? [on.right, on.left] : [on.left, on.right];
+  if (scope.tableOf(joined) !== table.alias || scope.tableOf(other) === table.alias) {
+    throw new SqlSyntaxError(
+      `The ON condition of JOIN ${table.alias} must compare a ${table.alias} column with a column of an earlier table`
+    );
+  }
+  return [
+    {
+      $lookup: {
+        from: table.collection,
+        localField: scope.path(other),
+        foreignField: scope.path(joined).slice(table.alias.length + 1),
+        as: table.alias,
+      },
+    },
+    { $unwind: { path: `$${table.alias}`, ...(left ? { preserveNullAndEmptyArrays: true } : {}) } },
+  ];
+}
+
+function sameColumn(a: Column | Aggregate, b: Column | Aggregate, scope: Scope): boolean {
+  if (a.kind === "column" && b.kind === "column") return scope.path(a) === scope.path(b);
+  if (a.kind === "aggregate" && b.kind === "aggregate") {
+    return (
+      a.fn === b.fn &&
+      a.distinct === b.distinct &&
+      (a.argument && b.argument ? scope.path(a.argument) === scope.path(b.argument) : a.argument === b.argument)
+    );
+  }
+  return false;
+}
+
+/**
+ * The $group stage and names for a grouped statement (GROUP BY, aggregates or
+ * DISTINCT). Group keys end up at _id.<name> and aggregates at their own names.
+ */
+class Grouping {
+  readonly aggregates: { aggregate: Aggregate; name: string }[] = [];
+
+  constructor(
+    private scope: Scope,
+    readonly keys: Column[],
+    private aliases: Map<string, Column | Aggregate>
+  ) {}
+
+  // Document path of a column, aggregate or select alias after the $group stage
+  resolve = (operand: Column | Aggregate): string => {
+    if (operand.kind === "column" && operand.segments.length === 1 && this.aliases.has(operand.segments[0])) {
+      const aliased = this.aliases.get(operand.segments[0])!;
+      return aliased.kind === "aggregate" ? this.aggregateName(aliased, operand.segments[0]) : this.resolve(aliased);
+    }
+    if (operand.kind === "aggregate") return this.aggregateName(operand);
+    const key = this.keys.find((k) => sameColumn(k, operand, this.scope));
+    if (!key) {
+      throw new SqlSyntaxError(
+        `Column "${operand.segments.join(".")}" must appear in GROUP BY or inside an aggregate function`,
+        operand.position
+      );
+    }
+    return `_id.${fieldName(this.scope.path(key))}`;
+  };
+
+  aggregateName(aggregate: Aggregate, alias?: string): string {
+    const existing = this.aggregates.find((a) => sameColumn(a.aggregate, aggregate, this.scope));
+    if (existing) return existing.name;
+    const argument = aggregate.argument ? fieldName(this.scope.path(aggregate.argument)) : "all";
+    const name = fieldName(alias ?? `${aggregate.fn.toLowerCase()}${aggregate.distinct ? "_distinct" : ""}_${argument}`);
+    this.aggregates.push({ aggregate, name });
+    return name;
+  }
+
+  stages(): Document[] {
+    const accumulators: Document = {};
+    const distinctCounts: Document = {};
+    for (const { aggregate, name } of this.aggregates) {
+      const field = aggregate.argument ? `$${this.scope.path(aggregate.argument)}` : undefined;
+      if (aggregate.fn === "COUNT") {
+        if (!field) accumulators[name] = { $sum: 1 };
+        else if (aggregate.distinct) {
+          accumulators[name] = { $addToSet: field };
+          distinctCounts[name] = { $size: `$${name}` };
+        } else accumulators[name] = { $sum: { $cond: [{ $gt: [field, null] }, 1, 0] } };
+      } else {
+        if (aggregate.distinct) throw new SqlSyntaxError(`${aggregate.fn}(DISTINCT ...) is not supported`);
+        accumulators[name] = { [`$${aggregate.fn.toLowerCase()}`]: field };
+      }
+    }
+
+    const id =
+      this.keys.length === 0
+        ? null
+        : Object.fromEntries(this.keys.map((key) => [fieldName(this.scope.path(key)), `$${this.scope.path(key)}`]));
+    return [
+      { $group: { _id: id, ...accumulators } },
+      ...(Object.keys(distinctCounts).length > 0 ? [{ $set: distinctCounts }] : []),
+    ];
+  }
+}
+
+function outputName(item: { expression: Column | Aggregate; alias?: string }, scope: Scope, grouping?: Grouping): string {
+  if (item.alias) return item.alias;
+  if (item.expression.kind === "aggregate") return grouping!.aggregateName(item.expression);
+  return scope.path(item.expression);
+}
+
+/**
+ * Translate a SELECT statement. Statements on one collection without grouping
+ * become a find; joins (as $lookup + $unwind), GROUP BY, aggregate functions
+ * and DISTINCT need an aggregation pipeline.
+ */
+export function translateSql(sql: string): SqlTranslation {
+  const statement = new Parser(tokenize(sql), sql.length).parseSelect();
+  const scope = new Scope(statement.from);
+
+  const lookups: Document[] = [];
+  for (const join of statement.joins) {
+    scope.addJoin(join.table);
+    lookups.push(...lookupStages(join, scope));
+  }
+
+  const expressions = statement.items.flatMap((item) => (item.kind === "expression" ? [item] : []));
+  const aliases = new Map(expressions.flatMap((item) => (item.alias ? [[item.alias, item.expression] as const] : [])));
+  const resolveSource = (operand: Column | Aggregate): string => {
+    if (operand.kind === "aggregate") {
+      throw new SqlSyntaxError(`${operand.fn}() can only be used in SELECT, HAVING and ORDER BY`);
+    }
+    return scope.path(operand);
+  };
+
+  // Conditions on the FROM collection alone run before the joins
+  const early: Condition[] = [];
+  const late: Condition[] = [];
+  for (const condition of conjuncts(statement.where)) {
+    const tables = columnsOf(condition).map((c) => (c.kind === "column" ? scope.tableOf(c) : ""));
+    (tables.every((table) => table === statement.from.alias) ? early : late).push(condition);
+  }
+  const earlyFilter = and(early.map((c) => translateCondition(c, resolveSource)));
+  const lateFilter = and(late.map((c) => translateCondition(c, resolveSource)));
+
+  const usesAggregates =
+    expressions.some((item) => item.expression.kind === "aggregate") ||
+    statement.orderBy.some((order) => order.operand.kind === "aggregate") ||
+    statement.having !== undefined;
+  const grouped = statement.groupBy.length > 0 || usesAggregates || statement.distinct;
+
+  const page: Document[] = [
+    ...(statement.offset ? [{ $skip: statement.offset }] : []),
+    ...(statement.limit !== undefined ? [{ $limit: statement.limit }] : []),
+  ];
+
+  if (grouped) {
+    if (statement.items.some((item) => item.kind === "star")) {
+      throw new SqlSyntaxError("SELECT * cannot be combined with GROUP BY, DISTINCT or aggregate functions");
+    }
+    const keys = statement.distinct
+      ? [
+          ...statement.groupBy,
+          ...expressions.flatMap((item) => (item.expression.kind === "column" ? [item.expression] : [])),
+        ].filter((key, index, all) => all.findIndex((other) => sameColumn(other, key, scope)) === index)
+      : statement.groupBy;
+    const grouping = new Grouping(scope, keys, aliases);
+
+    const project: Document = { _id: 0 };
+    for (const item of expressions) {
+      const path =
+        item.expression.kind === "aggregate" ? grouping.aggregateName(item.expression, item.alias) : grouping.resolve(item.expression);
+      project[outputName(item, scope, grouping)] = `$${path}`;
+    }
+    const having = statement.having ? translateCondition(statement.having, grouping.resolve) : {};
+    const sort = Object.fromEntries(statement.orderBy.map((order) => [grouping.resolve(order.operand), order.direction]));
+
+    const pipeline = [
+      ...(Object.keys(earlyFilter).length > 0 ? [{ $match: earlyFilter }] : []),
+      ...lookups,
+      ...(Object.keys(lateFilter).length > 0 ? [{ $match: lateFilter }] : []),
+      ...grouping.stages(),
+      ...(Object.keys(having).length > 0 ? [{ $match: having }] : []),
+      ...(Object.keys(sort).length > 0 ? [{ $sort: sort }] : []),
+      ...page,
+      { $project: project },
+    ];
+    return { collection: statement.from.collection, kind: "aggregate", pipeline };
+  }
+
+  let projection: Document | undefined;
+  if (!statement.items.some((item) => item.kind === "star")) {
+    projection = {};
+    for (const item of expressions) {
+      const path = scope.path(item.expression as Column);
+      projection[outputName(item, scope)] = item.alias ? `$${path}` : 1;
+    }
+    if (!("_id" in projection)) projection._id = 0;
+  }
+  // ORDER BY may name a select alias; sorting happens on the source fields
+  const sortPath = (operand: Column | Aggregate) =>
+    operand.kind === "column" && operand.segments.length === 1 && aliases.has(operand.segments[0])
+      ? resolveSource(aliases.get(operand.segments[0])!)
+      : resolveSource(operand);
+  const sort =
+    statement.orderBy.length > 0
+      ? Object.fromEntries(statement.orderBy.map((order) => [sortPath(order.operand), order.direction]))
+      : undefined;
+
+  const filter = lookups.length === 0 ? and([earlyFilter, lateFilter]) : earlyFilter;
+  const pipeline = [
+    ...(Object.keys(filter).length > 0 ? [{ $match: filter }] : []),
+    ...lookups,
+    ...(lookups.length > 0 && Object.keys(lateFilter).length > 0 ? [{ $match: lateFilter }] : []),
+    ...(sort ? [{ $sort: sort }] : []),
+    ...page,
+    ...(projection ? [{ $project: projection }] : []),
+  ];
+
+  if (lookups.length > 0) {
+    return { collection: statement.from.collection, kind: "aggregate", pipeline };
+  }
+  return {
+    collection: statement.from.collection,
+    kind: "find",
+    find: {
+      filter,
+      ...(projection ? { projection } : {}),
+      ...(sort ? { sort } : {}),
+      ...(statement.offset ? { skip: statement.offset } : {}),
+      ...(statement.limit !== undefined ? { limit: statement.limit } : {}),
+    },
+    pipeline,
+  };
+}
@@ -0,0 +1,654 @@
+// Tool definitions: zod input schemas checked on every call and output schemas for structuredContent
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { CHANGE_OPERATION_TYPES } from "./changeWatcher.js";
+import { EJSON_MODES } from "./ejson.js";
+import { EXPLAIN_VERBOSITIES } from "./explainSummary.js";
+import { EXPORT_FORMATS } from "./exporter.js";
+
+// Limits shown in argument descriptions
+export interface ToolLimits {
+  schemaSampleSize: number;
+  maxSchemaSampleSize: number;
+  fieldStatsSampleSize: number;
+  maxFieldStatsSampleSize: number;
+  maxFieldStatsFields: number;
+  maxRelationshipCollections: number;
+}
+
+export interface ToolDefinition {
+  description: string;
+  input: z.AnyZodObject;
+  output: z.AnyZodObject;
+  // Only listed when at least one connection profile allows writes
+  requiresWrites?: boolean;
+}
+
+function oneOf<T extends string>(values: readonly T[]) {
+  return z.enum(values as [T, ...T[]]);
+}
+
+const target = {
+  connection: z
+    .string()
+    .optional()
+    .describe("Optional: connection profile name (see mongodb_list_connections; uses the default profile if not specified)"),
+  database: z
+    .string()
+    .optional()
+    .describe("Optional: database name (uses the profile's default database if not specified)"),
+};
+
+const ejsonMode = oneOf(EJSON_MODES)
+  .optional()
+  .describe("EJSON mode for parsing arguments and serializing results (default: server setting)");
+const maxTimeMS = z
+  .number()
+  .int()
+  .positive()
+  .optional()
+  .describe("Server-side time limit in milliseconds (default and maximum are set by the server)");
+const allowDiskUse = z.boolean().optional().describe("Let stages spill to disk (only if enabled on the server)");
+const cursor = z
+  .string()
+  .optional()
+  .describe("Continuation token from a previous truncated response; fetches the next page of the same query");
+const confirm = z.string().optional().describe("Confirmation token from the preview; without it the call is a dry run");
+const limit = z.number().int().nonnegative().optional();
+const skip = z.number().int().nonnegative().optional().describe("Number of documents to skip");
+
+const longitude = z.number().min(-180).max(180);
+const latitude = z.number().min(-90).max(90);
+const position = z.tuple([longitude, latitude]);
+
+const document = z.record(z.unknown());
+const documents = z.array(document);
+
+const queryOutput = z.object({
+  collection: z.string(),
+  count: z.number(),
+  truncated: z.boolean(),
+  cursor: z.string().optional(),
+  results: documents,
+});
+
+const writeOutput = z
+  .object({
+    dryRun: z.boolean().optional(),
+    executed: z.boolean().optional(),
+    connection: z.string(),
+    database: z.string(),
+    collection: z.string(),
+    affected: z.number().optional(),
+    samples: documents.optional(),
+    confirm: z.string().optional(),
+    expiresAt: z.string().optional(),
+    undoId: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Every built-in tool, in listing order. Saved queries are added by the server.
+ */
+export function toolDefinitions(limits: ToolLimits) {
+  return {
+    mongodb_query: {
+      description:
+        "Execute a read-only query on a MongoDB collection with filtering, projection, sorting, and pagination. Large results are truncated to the response budget and return a cursor token for the next page",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection to query"),
+        filter: z
+          .string()
+          .optional()
+          .describe("EJSON string of MongoDB query filter (e.g., '{\"status\": \"active\"}' or '{\"_id\": {\"$oid\": \"...\"}}')"),
+        projection: z.string().optional().describe("JSON string of fields to include/exclude (e.g., '{\"name\": 1, \"_id\": 0}')"),
+        sort: z.string().optional().describe("JSON string of sort specification (e.g., '{\"createdAt\": -1}')"),
+        limit: limit.describe("Maximum number of documents to return (default: 100)"),
+        skip,
+        cursor,
+        maxTimeMS,
+        ejsonMode,
+        ...target,
+      }),
+      output: queryOutput,
+    },
+    mongodb_export: {
+      description:
+        "Export the full result of a query (filter/projection/sort) or aggregation (pipeline) to a CSV, NDJSON or EJSON array file in the server's export directory. Returns the file path, row count and size; the file is also readable as a resource",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection to export from"),
+        format: oneOf(EXPORT_FORMATS).describe(
+          "File format: csv (nested fields flattened to dotted headers), ndjson (one EJSON document per line) or ejson (a single EJSON array)"
+        ),
+        filter: z.string().optional().describe("EJSON string of MongoDB query filter (ignored when pipeline is given)"),
+        projection: z.string().optional().describe("JSON string of fields to include/exclude"),
+        sort: z.string().optional().describe("JSON string of sort specification"),
+        limit: limit.describe("Maximum number of documents to export (default and maximum are set by the server)"),
+        skip,
+        pipeline: z
+          .string()
+          .optional()
+          .describe("EJSON string of an aggregation pipeline; exports its output instead of a query"),
+        allowDiskUse: z.boolean().optional().describe("Allow the aggregation to spill to disk, if the server permits it"),
+        maxTimeMS,
+        ejsonMode: oneOf(EJSON_MODES)
+          .optional()
+          .describe("EJSON mode for parsing arguments and writing ndjson/ejson files (default: server setting)"),
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        path: z.string(),
+        uri: z.string(),
+        format: oneOf(EXPORT_FORMATS),
+        rows: z.number(),
+        bytes: z.number(),
+        truncated: z.boolean(),
+        warning: z.string().optional(),
+      }),
+    },
+    mongodb_count: {
+      description: "Count documents in a collection matching a filter",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        filter: z.string().optional().describe("EJSON string of MongoDB query filter"),
+        maxTimeMS,
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({ collection: z.string(), filter: document, count: z.number() }),
+    },
+    mongodb_aggregate: {
+      description:
+        "Run a read-only aggregation pipeline on a collection ($out, $merge and server-side JavaScript operators are rejected). Large results are truncated to the response budget and return a cursor token for the next page; end the pipeline with a $sort for stable paging",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        pipeline: z
+          .string()
+          .optional()
+          .describe("EJSON string of aggregation pipeline stages array (required unless cursor is given)"),
+        cursor,
+        maxTimeMS,
+        allowDiskUse,
+        ejsonMode,
+        ...target,
+      }),
+      output: queryOutput.extend({ pipeline: documents }),
+    },
+    mongodb_sql: {
+      description:
+        "Translate a SQL SELECT into a MongoDB find or aggregation pipeline and run it. Supports column aliases; WHERE with =, !=, <, >, AND, OR, NOT, IN, LIKE, BETWEEN and IS NULL; GROUP BY with COUNT, SUM, AVG, MIN and MAX; HAVING; ORDER BY; LIMIT/OFFSET; and INNER/LEFT JOIN ... ON a.field = b.field. As in SQL, != and NOT never match null or missing fields. Returns the translation alongside the results; execution goes through mongodb_aggregate, so its cursor token pages with that tool",
+      input: z.object({
+        sql: z
+          .string()
+          .min(1)
+          .describe("SELECT statement; the FROM table is the collection (e.g. \"SELECT status, COUNT(*) AS n FROM orders GROUP BY status\")"),
+        execute: z.boolean().optional().describe("Run the translated query (default: true); false only translates"),
+        maxTimeMS,
+        allowDiskUse,
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        sql: z.string(),
+        collection: z.string(),
+        kind: z.enum(["find", "aggregate"]),
+        find: document.optional(),
+        pipeline: documents,
+        executed: z.boolean(),
+        count: z.number().optional(),
+        truncated: z.boolean().optional(),
+        cursor: z.string().optional(),
+        results: documents.optional(),
+      }),
+    },
+    mongodb_distinct: {
+      description: "Get distinct values for a field in a collection",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        field: z.string().min(1).describe("Name of the field to get distinct values from"),
+        filter: z.string().optional().describe("EJSON string of MongoDB query filter"),
+        maxTimeMS,
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        field: z.string(),
+        distinctValues: z.array(z.unknown()),
+        count: z.number(),
+      }),
+    },
+    mongodb_text_search: {
+      description:
+        "Full-text search using the collection's text index ($text, no Atlas Search needed). Results are ranked by text score and show the matched terms highlighted in the indexed fields. Explains how to create a text index when the collection has none",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection to search"),
+        query: z
+          .string()
+          .min(1)
+          .describe('Search terms; "quoted phrases" must match exactly and -term excludes documents containing term'),
+        filter: z.string().optional().describe("EJSON string of an additional MongoDB query filter"),
+        projection: z.string().optional().describe("JSON string of fields to include/exclude"),
+        language: z.string().optional().describe("Stemming language, e.g. english or none (default: the index's language)"),
+        caseSensitive: z.boolean().optional().describe("Match case exactly (default: false)"),
+        diacriticSensitive: z.boolean().optional().describe("Distinguish é from e (default: false)"),
+        limit: limit.describe("Maximum number of documents to return (default: 20)"),
+        skip,
+        maxTimeMS,
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        query: z.string(),
+        textIndex: z.object({ name: z.string(), fields: z.array(z.string()) }),
+        count: z.number(),
+        truncated: z.boolean(),
+        results: z.array(
+          z.object({
+            score: z.number(),
+            highlights: z.array(z.object({ field: z.string(), snippet: z.string() })),
+            document,
+          })
+        ),
+      }),
+    },
+    mongodb_geo_query: {
+      description:
+        "Geospatial query on GeoJSON locations: documents near a point (nearest first, with distances in meters), or within a polygon or bounding box. The location field is detected from the collection's 2dsphere index unless given. Pass exactly one of near, polygon or box",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        field: z
+          .string()
+          .optional()
+          .describe("Location field (default: the collection's only 2dsphere-indexed field)"),
+        near: z
+          .object({
+            longitude,
+            latitude,
+            maxDistanceMeters: z.number().nonnegative().optional(),
+            minDistanceMeters: z.number().nonnegative().optional(),
+          })
+          .optional()
+          .describe("Point to search around; requires a 2dsphere index on the field"),
+        polygon: z
+          .array(position)
+          .min(3)
+          .optional()
+          .describe("Polygon as [longitude, latitude] points; closed automatically"),
+        box: z
+          .object({ southWest: position, northEast: position })
+          .optional()
+          .describe("Bounding box by its south-west and north-east [longitude, latitude] corners"),
+        filter: z.string().optional().describe("EJSON string of an additional MongoDB query filter"),
+        projection: z.string().optional().describe("JSON string of fields to include/exclude"),
+        sort: z.string().optional().describe("JSON string of sort specification (polygon and box only; near sorts by distance)"),
+        limit: limit.describe("Maximum number of documents to return (default: 100)"),
+        skip,
+        maxTimeMS,
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        field: z.string(),
+        shape: z.enum(["near", "polygon", "box"]),
+        count: z.number(),
+        truncated: z.boolean(),
+        results: z.array(z.object({ distanceMeters: z.number().optional(), document })),
+      }),
+    },
+    mongodb_field_stats: {
+      description:
+        "Profile one or more fields: null/missing rate, type distribution, cardinality, top values with counts, and for numeric and date fields min, max, mean, standard deviation, percentiles and a histogram. Large result sets are sampled. Fields redacted by the access policy report only document, missing and null counts",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        fields: z
+          .array(z.string().min(1).refine((field) => !field.startsWith("$"), "Field paths cannot start with $"))
+          .min(1)
+          .max(limits.maxFieldStatsFields)
+          .describe(`Field paths to profile (dot notation for nested fields, at most ${limits.maxFieldStatsFields})`),
+        filter: z.string().optional().describe("EJSON string of MongoDB query filter selecting the documents to profile"),
+        topK: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Number of most frequent values to return per field (default: 10, maximum: 100)"),
+        buckets: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Number of histogram buckets for numeric and date fields (default: 10, maximum: 50)"),
+        sampleSize: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            `Profile a random sample of this many documents when more match (default: ${limits.fieldStatsSampleSize}, maximum: ${limits.maxFieldStatsSampleSize})`
+          ),
+        maxTimeMS,
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        filter: document,
+        sampled: z.boolean(),
+        documentsAnalyzed: z.number(),
+        fields: documents,
+      }),
+    },
+    mongodb_explain: {
+      description:
+        "Explain a find query or aggregation pipeline: returns the raw plan and a summary of winning plan stages, index used (or COLLSCAN), keys/docs examined vs returned, and execution time",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        filter: z.string().optional().describe("EJSON string of MongoDB query filter (find mode)"),
+        projection: z.string().optional().describe("EJSON string of fields to include/exclude (find mode)"),
+        sort: z.string().optional().describe("EJSON string of sort specification (find mode)"),
+        limit: limit.describe("Maximum number of documents to return (find mode, default: 100)"),
+        skip: skip.describe("Number of documents to skip (find mode)"),
+        pipeline: z
+          .string()
+          .optional()
+          .describe("EJSON string of aggregation pipeline stages array (explains an aggregation instead of a find)"),
+        verbosity: oneOf(EXPLAIN_VERBOSITIES)
+          .optional()
+          .describe("queryPlanner (plan only) or executionStats (runs the query; default)"),
+        includeRawPlan: z.boolean().optional().describe("Include the raw explain output (default: true)"),
+        maxTimeMS,
+        allowDiskUse,
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        mode: z.enum(["find", "aggregate"]),
+        verbosity: oneOf(EXPLAIN_VERBOSITIES),
+        summary: document,
+        rawPlan: document.optional(),
+      }),
+    },
+    mongodb_watch: {
+      description:
+        "Wait for the next change events on a collection (requires a replica set or sharded cluster). Returns up to maxEvents events or whatever arrived before the timeout, plus a resume token to continue from",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection to watch"),
+        operationTypes: z
+          .array(oneOf(CHANGE_OPERATION_TYPES))
+          .optional()
+          .describe("Only return these operation types (default: all)"),
+        maxEvents: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Number of events to wait for (default: 10, maximum: 100)"),
+        timeoutMS: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("How long to wait in milliseconds (default: 10000; the maximum is the server's maxTimeMS limit)"),
+        resumeAfter: z
+          .string()
+          .optional()
+          .describe("EJSON resume token from a previous call; returns the events that followed it"),
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        count: z.number(),
+        timedOut: z.boolean(),
+        resumeAfter: z.unknown(),
+        events: documents,
+      }),
+    },
+    mongodb_list_indexes: {
+      description:
+        "List the indexes on a collection with their keys, options (unique, sparse, partial, TTL), size and usage counts",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        ...target,
+      }),
+      output: z.object({ collection: z.string(), count: z.number(), indexes: documents }),
+    },
+    mongodb_suggest_indexes: {
+      description:
+        "Suggest compound indexes (equality-sort-range order) for a filter+sort, a list of queries, or this server's recent queries; also flags unused and redundant existing indexes",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        filter: z.string().optional().describe("EJSON string of MongoDB query filter"),
+        sort: z.string().optional().describe("EJSON string of sort specification"),
+        queries: z
+          .string()
+          .optional()
+          .describe("EJSON string of an array of {\"filter\": {...}, \"sort\": {...}} objects"),
+        useHistory: z
+          .boolean()
+          .optional()
+          .describe(
+            "Include recent queries on this collection made through this server (default: true when no filter or queries are given)"
+          ),
+        ejsonMode,
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        queriesAnalyzed: z.number(),
+        historyQueriesUsed: z.number(),
+        suggestions: documents,
+        unusedIndexes: documents,
+        redundantIndexes: documents,
+      }),
+    },
+    mongodb_infer_schema: {
+      description:
+        "Infer a collection's schema from a random sample: nested field paths, observed BSON types with percentages, and how often each field is present",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        sampleSize: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            `Number of documents to sample with $sample (default: ${limits.schemaSampleSize}, max: ${limits.maxSchemaSampleSize})`
+          ),
+        format: z
+          .enum(["summary", "jsonSchema", "both"])
+          .optional()
+          .describe("Return the field summary, a $jsonSchema document, or both (default: summary)"),
+        ...target,
+      }),
+      output: z.object({
+        collection: z.string(),
+        documentsSampled: z.number(),
+        fields: documents.optional(),
+        jsonSchema: document.optional(),
+      }),
+    },
+    mongodb_discover_relationships: {
+      description:
+        "Find reference fields between collections: ObjectId or string fields whose sampled values exist in another collection's _id or unique-indexed field. Returns the relationships scored by match rate, a Mermaid ER diagram and $lookup stages for each",
+      input: z.object({
+        collections: z
+          .array(z.string().min(1))
+          .max(limits.maxRelationshipCollections)
+          .optional()
+          .describe(
+            `Collections to scan (default: every readable collection in the database, up to ${limits.maxRelationshipCollections})`
+          ),
+        sampleSize: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            `Documents to sample from each collection (default: ${limits.schemaSampleSize}, max: ${limits.maxSchemaSampleSize})`
+          ),
+        minMatchRate: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe("Fraction of a field's sampled values that must exist in the target to report it (default: 0.5)"),
+        maxTimeMS: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Server-side time limit for each sample and probe in milliseconds"),
+        ...target,
+      }),
+      output: z.object({
+        database: z.string(),
+        collectionsScanned: z.array(z.string()),
+        relationships: documents,
+        mermaid: z.string(),
+      }),
+    },
+    mongodb_list_databases: {
+      description: "List all available databases in the MongoDB instance",
+      input: z.object({ ...target }),
+      output: z.object({
+        connection: z.string(),
+        currentDatabase: z.string(),
+        connectionUri: z.string(),
+        databases: documents,
+      }),
+    },
+    mongodb_list_collections: {
+      description: "List all collections in a database with their stats",
+      input: z.object({ ...target }),
+      output: z.object({
+        connection: z.string(),
+        database: z.string(),
+        totalCollections: z.number(),
+        collections: documents,
+      }),
+    },
+    mongodb_query_history: {
+      description:
+        "Review the tool calls made in this session: tool, collection, filter, pipeline, update or SQL, write summary, result count, duration and error",
+      input: z.object({
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of calls to return, most recent first (default: 20)"),
+        tool: z.string().optional().describe("Only return calls to this tool"),
+      }),
+      output: z.object({ count: z.number(), calls: documents }),
+    },
+    mongodb_insert: {
+      description:
+        "Insert documents (write-enabled connections only). Without confirm, previews the insert and returns a confirmation token; call again with the same arguments plus confirm to execute",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        documents: z.string().describe("EJSON string of a document or an array of documents"),
+        confirm,
+        ...target,
+      }),
+      output: writeOutput,
+      requiresWrites: true,
+    },
+    mongodb_update: {
+      description:
+        "Update documents (write-enabled connections only). Without confirm, reports the matched count and a before/after diff of sample documents and returns a confirmation token; call again with the same arguments plus confirm to execute. Modified documents are saved for mongodb_undo",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        filter: z.string().describe("EJSON string of the filter selecting documents to update"),
+        update: z
+          .string()
+          .describe(
+            "EJSON string of update operators (e.g. '{\"$set\": {\"status\": \"archived\"}}') or an update pipeline"
+          ),
+        multi: z.boolean().optional().describe("Update every matching document instead of the first (default: false)"),
+        confirm,
+        ...target,
+      }),
+      output: writeOutput,
+      requiresWrites: true,
+    },
+    mongodb_delete: {
+      description:
+        "Delete documents (write-enabled connections only). Without confirm, reports the matched count and sample documents and returns a confirmation token; call again with the same arguments plus confirm to execute. Deleted documents are saved for mongodb_undo",
+      input: z.object({
+        collection: z.string().min(1).describe("Name of the collection"),
+        filter: z.string().describe("EJSON string of the filter selecting documents to delete"),
+        multi: z.boolean().optional().describe("Delete every matching document instead of the first (default: false)"),
+        confirm,
+        ...target,
+      }),
+      output: writeOutput,
+      requiresWrites: true,
+    },
+    mongodb_undo: {
+      description:
+        "Revert a write from its undo snapshot: removes inserted documents, or restores updated and deleted documents to their saved state (overwriting later changes). Only the client that made a write can undo it. Without undoId, lists its recent snapshots; without confirm, previews the undo",
+      input: z.object({
+        undoId: z.string().optional().describe("Undo snapshot id returned by a write"),
+        confirm,
+      }),
+      output: z
+        .object({
+          snapshots: documents.optional(),
+          dryRun: z.boolean().optional(),
+          executed: z.boolean().optional(),
+          undoId: z.string().optional(),
+          action: z.string().optional(),
+          documents: z.number().optional(),
+          confirm: z.string().optional(),
+        })
+        .passthrough(),
+      requiresWrites: true,
+    },
+    mongodb_list_connections: {
+      description: "List the configured connection profiles (credentials hidden) and whether each is connected",
+      input: z.object({}),
+      output: z.object({ defaultProfile: z.string(), connections: documents }),
+    },
+    mongodb_verify_connection: {
+      description: "Verify MongoDB connection and show current database information",
+      input: z.object({ ...target }),
+      output: z.object({
+        connected: z.boolean(),
+        connection: z.string(),
+        connectionUri: z.string(),
+        health: document,
+        currentDatabase: z.string(),
+        serverInfo: document,
+        databaseStats: document,
+      }),
+    },
+  } satisfies Record<string, ToolDefinition>;
+}
+
+export type ToolDefinitions = ReturnType<typeof toolDefinitions>;
+export type ToolName = keyof ToolDefinitions;
+export type ToolInput<N extends ToolName> = z.infer<ToolDefinitions[N]["input"]>;
+
+/**
+ * JSON Schema for a tool listing; MCP requires an object schema.
+ */
+export function jsonSchema(schema: z.AnyZodObject): { type: "object"; [key: string]: unknown } {
+  const { $schema, ...rest } = zodToJsonSchema(schema, { $refStrategy: "none" }) as Record<string, unknown>;
+  return { ...rest, type: "object" };
+}
+
+/**
+ * One line per problem, each naming the argument: `limit: Expected number, received string`.
+ */
+export function describeIssues(error: z.ZodError): { argument: string; message: string }[] {
+  return error.issues.map((issue) => ({
+    argument: issue.path.length > 0 ? issue.path.join(".") : "(arguments)",
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,324 @@
+// Opt-in writes: dry-run previews, confirmation tokens, document caps and undo snapshots
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BSON, Collection, Document } from "mongodb";
+import { positiveIntFromEnv } from "./env.js";
+import { GuardError } from "./executionGuards.js";
+
+export type WriteKind = "insert" | "update" | "delete";
+
+export interface WriteModeOptions {
+  // Most documents a single write may insert, modify or delete
+  maxDocuments: number;
+  // Documents shown with a before/after diff in a preview
+  previewSampleSize: number;
+  confirmTTLMS: number;
+  undoDirectory: string;
+}
+
+/**
+ * MONGODB_WRITE_MAX_DOCUMENTS (default 100), MONGODB_WRITE_PREVIEW_SAMPLE (5),
+ * MONGODB_WRITE_CONFIRM_TTL_MS (5 minutes) and MONGODB_UNDO_DIR configure write mode.
+ * Writes themselves are enabled per connection profile (allowWrites).
+ */
+export function writeModeOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): WriteModeOptions {
+  return {
+    maxDocuments: positiveIntFromEnv(env, "MONGODB_WRITE_MAX_DOCUMENTS", 100),
+    previewSampleSize: positiveIntFromEnv(env, "MONGODB_WRITE_PREVIEW_SAMPLE", 5),
+    confirmTTLMS: positiveIntFromEnv(env, "MONGODB_WRITE_CONFIRM_TTL_MS", 5 * 60 * 1000),
+    undoDirectory: env.MONGODB_UNDO_DIR || join(tmpdir(), "mongodb-mcp-undo"),
+  };
+}
+
+export interface FieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PreviewDocument {
+  _id: unknown;
+  before?: Document;
+  after?: Document;
+  changes?: FieldChange[];
+}
+
+export interface WritePreview {
+  kind: WriteKind;
+  // Documents the write would insert, modify or delete
+  affected: number;
+  samples: PreviewDocument[];
+  // Set when the after state of an update cannot be computed without running it
+  note?: string;
+}
+
+export interface UndoSnapshot {
+  id: string;
+  createdAt: string;
+  kind: WriteKind;
+  // Client that made the write (its session when unauthenticated); only it can list or apply the snapshot
+  owner: string;
+  connection: string;
+  database: string;
+  collection: string;
+  // Full documents as they were before an update or delete
+  before?: Document[];
+  // _id values created by an insert
+  insertedIds?: unknown[];
+  undoneAt?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function literal(value: unknown) {
+  return { $literal: value };
+}
+
+// Positional paths (arr.$, arr.$[], arr.$[id]) depend on the query match and have no aggregation equivalent
+function isPositionalPath(path: string): boolean {
+  return path.split(".").some((segment) => segment.startsWith("$"));
+}
+
+/**
+ * Express an update as aggregation stages so the server can compute the after state
+ * of sample documents without modifying them. Update pipelines are used as-is;
+ * operator updates are translated when every operator has an equivalent and no
+ * path is positional.
+ */
+export function updatePreviewPipeline(update: Document | Document[]): Document[] | undefined {
+  if (Array.isArray(update)) return update;
+
+  const stages: Document[] = [];
+  for (const [operator, fields] of Object.entries(update)) {
+    if (!isPlainObject(fields)) return undefined;
+    if (Object.keys(fields).some(isPositionalPath)) return undefined;
+    const set: Document = {};
+    const field = (path: string) => `$${path}`;
+
+    for (const [path, value] of Object.entries(fields)) {
+      switch (operator) {
+        case "$set":
+          set[path] = literal(value);
+          break;
+        case "$unset":
+          stages.push({ $unset: path });
+          break;
+        case "$inc":
+          set[path] = { $add: [{ $ifNull: [field(path), 0] }, literal(value)] };
+          break;
+        case "$mul":
+          set[path] = { $multiply: [{ $ifNull: [field(path), 0] }, literal(value)] };
+          break;
+        case "$min":
+        case "$max":
+          set[path] = {
+            $cond: [{ $eq: [{ $type: field(path) }, "missing"] }, literal(value), { [operator]: [field(path), literal(value)] }],
+          };
+          break;
+        case "$currentDate":
+          set[path] = "$$NOW";
+          break;
+        case "$rename":
+          if (typeof value !== "string") return undefined;
+          stages.push({ $set: { [value]: field(path) } }, { $unset: path });
+          break;
+        case "$push":
+        case "$addToSet": {
+          const each = isPlainObject(value) && "$each" in value ? value.$each : [value];
+          if (!Array.isArray(each) || (isPlainObject(value) && Object.keys(value).length > 1)) return undefined;
+          const current = { $ifNull: [field(path), []] };
+          set[path] =
+            operator === "$push"
+              ? { $concatArrays: [current, literal(each)] }
+              : {
+                  $reduce: {
+                    input: literal(each),
+                    initialValue: current,
+                    in: { $cond: [{ $in: ["$$this", "$$value"] }, "$$value", { $concatArrays: ["$$value", ["$$this"]] }] },
+                  },
+                };
+          break;
+        }
+        case "$pull":
+          // Only scalar equality; conditions and sub-document matches need the query matcher
+          if (isPlainObject(value)) return undefined;
+          set[path] = { $filter: { input: { $ifNull: [field(path), []] }, cond: { $ne: ["$$this", literal(value)] } } };
+          break;
+        default:
+          return undefined;
+      }
+    }
+
+    if (Object.keys(set).length > 0) stages.push({ $set: set });
+  }
+  return stages;
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>) {
+  if (isPlainObject(value) && (Object.keys(value).length > 0 || prefix === "")) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.set(prefix, value);
+  }
+  return out;
+}
+
+/**
+ * Leaf-level differences between two versions of a document. Arrays and BSON
+ * values are compared as whole values.
+ */
+export function diffDocuments(before: Document | undefined, after: Document | undefined): FieldChange[] {
+  const a = flatten(before ?? {}, "", new Map());
+  const b = flatten(after ?? {}, "", new Map());
+  const changes: FieldChange[] = [];
+  const same = (x: unknown, y: unknown) =>
+    BSON.EJSON.stringify(x ?? null, { relaxed: false }) === BSON.EJSON.stringify(y ?? null, { relaxed: false });
+
+  for (const path of new Set([...a.keys(), ...b.keys()])) {
+    if (a.has(path) && b.has(path) && same(a.get(path), b.get(path))) continue;
+    changes.push({
+      path,
+      ...(a.has(path) ? { before: a.get(path) } : {}),
+      ...(b.has(path) ? { after: b.get(path) } : {}),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Fetch the documents a filter would affect, refusing when there are more than the cap.
+ */
+export async function affectedDocuments(
+  collection: Collection,
+  filter: Document,
+  multi: boolean,
+  maxDocuments: number,
+  maxTimeMS: number
+): Promise<Document[]> {
+  const documents = await collection
+    .find(filter)
+    .limit(multi ? maxDocuments + 1 : 1)
+    .maxTimeMS(maxTimeMS)
+    .toArray();
+  if (documents.length > maxDocuments) {
+    throw new GuardError(
+      `The write would affect more than ${maxDocuments} documents; narrow the filter or split it into smaller writes`,
+      "maxWriteDocuments",
+      maxDocuments,
+      documents.length
+    );
+  }
+  return documents;
+}
+
+/**
+ * Single-use confirmation tokens binding a preview to the exact write it described.
+ */
+export class ConfirmationTokens {
+  private tokens = new Map<string, { fingerprint: string; session: string; expiresAt: number }>();
+
+  constructor(private ttlMS: number) {}
+
+  static fingerprint(operation: unknown): string {
+    return createHash("sha256").update(BSON.EJSON.stringify(operation, { relaxed: false })).digest("hex");
+  }
+
+  issue(fingerprint: string, session: string): { token: string; expiresAt: string } {
+    this.prune();
+    const token = randomBytes(16).toString("hex");
+    const expiresAt = Date.now() + this.ttlMS;
+    this.tokens.set(token, { fingerprint, session, expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  consume(token: string, fingerprint: string, session: string) {
+    this.prune();
+    const entry = this.tokens.get(token);
+    if (!entry || entry.session !== session) {
+      throw new Error("Unknown or expired confirmation token; run the write without confirm to get a new preview");
+    }
+    if (entry.fingerprint !== fingerprint) {
+      throw new Error("Confirmation token was issued for different arguments; run the write without confirm to preview it");
+    }
+    this.tokens.delete(token);
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [token, entry] of this.tokens) {
+      if (entry.expiresAt <= now) this.tokens.delete(token);
+    }
+  }
+}
+
+/**
+ * Undo snapshots are canonical EJSON files named by id in the undo directory.
+ * Another owner's snapshot is reported as not found.
+ */
+export class UndoStore {
+  constructor(private directory: string) {}
+
+  async save(snapshot: Omit<UndoSnapshot, "id" | "createdAt">): Promise<UndoSnapshot> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const createdAt = new Date();
+    const id = `${createdAt.toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}`;
+    const saved = { id, createdAt: createdAt.toISOString(), ...snapshot };
+    await this.write(saved);
+    return saved;
+  }
+
+  async load(id: string, owner: string): Promise<UndoSnapshot> {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid undo id "${id}"`);
+    }
+    let snapshot: UndoSnapshot | undefined;
+    try {
+      snapshot = BSON.EJSON.parse(await readFile(join(this.directory, `${id}.json`), "utf8"), { relaxed: false });
+    } catch {
+      snapshot = undefined;
+    }
+    if (!snapshot || snapshot.owner !== owner) {
+      throw new Error(`Undo snapshot "${id}" not found`);
+    }
+    return snapshot;
+  }
+
+  async markUndone(snapshot: UndoSnapshot) {
+    await this.write({ ...snapshot, undoneAt: new Date().toISOString() });
+  }
+
+  // The owner's most recent snapshots first
+  async list(owner: string, limit = 20) {
+    const names = await readdir(this.directory).catch(() => [] as string[]);
+    const ids = names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => name.slice(0, -".json".length))
+      .sort()
+      .reverse();
+
+    const snapshots: UndoSnapshot[] = [];
+    for (const id of ids) {
+      if (snapshots.length === limit) break;
+      const snapshot = await this.load(id, owner).catch(() => undefined);
+      if (snapshot) snapshots.push(snapshot);
+    }
+    return snapshots.map(({ before, insertedIds, owner, ...summary }) => ({
+      ...summary,
+      documents: before?.length ?? insertedIds?.length ?? 0,
+    }));
+  }
+
+  private async write(snapshot: UndoSnapshot) {
+    await writeFile(
+      join(this.directory, `${snapshot.id}.json`),
+      BSON.EJSON.stringify(snapshot, { relaxed: false }),
+      { mode: 0o600 }
+    );
+  }
+}
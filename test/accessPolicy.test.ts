@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AccessDeniedError, AccessPolicy } from "../src/accessPolicy.js";
+
+describe("AccessPolicy", () => {
+  const policy = new AccessPolicy(
+    {
+      databases: { deny: ["admin"] },
+      collections: { allow: ["app.*", "audit"], deny: ["app.secrets"] },
+      redact: [
+        { collection: "app.users", fields: ["ssn", "contact.phone"], strategy: "hash" },
+        { collection: "app.users", fields: ["password"], strategy: "drop" },
+        { collection: "app.users", fields: ["card"], strategy: "mask" },
+      ],
+    },
+    "test-key"
+  );
+
+  describe("collection access", () => {
+    it("lets deny win over allow", () => {
+      assert.ok(policy.canReadCollection("app", "orders"));
+      assert.ok(!policy.canReadCollection("app", "secrets"));
+      assert.ok(policy.canReadCollection("reports", "audit"));
+      assert.ok(!policy.canReadCollection("reports", "orders"));
+      assert.throws(() => policy.assertDatabase("admin"), AccessDeniedError);
+      assert.throws(() => policy.assertCollection("app", "secrets"), AccessDeniedError);
+    });
+
+    it("refuses pipelines that join a denied collection", () => {
+      assert.throws(
+        () => policy.assertPipeline("app", "orders", [{ $lookup: { from: "secrets", as: "s", localField: "a", foreignField: "b" } }]),
+        AccessDeniedError
+      );
+      assert.throws(
+        () => policy.assertPipeline("app", "orders", [{ $facet: { a: [{ $unionWith: { coll: "x", pipeline: [{ $unionWith: "secrets" }] } }] } }]),
+        AccessDeniedError
+      );
+    });
+  });
+
+  describe("redaction", () => {
+    it("hashes, drops and masks the configured fields", () => {
+      const [user] = policy.redactDocuments("app", "users", [
+        { name: "Ann", ssn: "123-45-6789", password: "pw", card: "4111111111111111", contact: { phone: "555-1234" } },
+      ]);
+      assert.equal(user.name, "Ann");
+      assert.match(user.ssn, /^hmac-sha256:[0-9a-f]{16}$/);
+      assert.match(user.contact.phone, /^hmac-sha256:/);
+      assert.ok(!Object.hasOwn(user, "password"));
+      assert.equal(user.card, "************1111");
+    });
+
+    it("keys the hash so that it differs between keys but is stable for one", () => {
+      const other = new AccessPolicy({ redact: [{ fields: ["ssn"], strategy: "hash" }] }, "other-key");
+      const a = policy.redactDocument("app", "users", { ssn: "123-45-6789" }).ssn;
+      const b = policy.redactDocument("app", "users", { ssn: "123-45-6789" }).ssn;
+      const c = other.redactDocument("app", "users", { ssn: "123-45-6789" }).ssn;
+      assert.equal(a, b);
+      assert.notEqual(a, c);
+    });
+
+    it("redacts inside arrays of sub-documents", () => {
+      const doc = policy.redactDocument("app", "users", { contact: [{ phone: "1" }, { phone: "2" }] });
+      assert.ok(doc.contact.every((c: { phone: string }) => c.phone.startsWith("hmac-sha256:")));
+    });
+
+    it("leaves other collections alone", () => {
+      const doc = { ssn: "123" };
+      assert.equal(policy.redactDocument("app", "orders", doc), doc);
+    });
+
+    it("redacts changed fields of change events", () => {
+      const event = policy.redactChangeEvent("app", "users", {
+        operationType: "update",
+        updateDescription: { updatedFields: { "contact.phone": "555", name: "Bo" } },
+      });
+      assert.match(event.updateDescription.updatedFields["contact.phone"], /^hmac-sha256:/);
+      assert.equal(event.updateDescription.updatedFields.name, "Bo");
+    });
+
+    it("reports fields whose values are partly redacted", () => {
+      assert.ok(policy.redactsField("app", "users", "ssn"));
+      assert.ok(policy.redactsField("app", "users", "contact"));
+      assert.ok(!policy.redactsField("app", "users", "name"));
+    });
+  });
+
+  describe("expressions on redacted fields", () => {
+    it("refuses projections that copy a redacted field", () => {
+      assert.throws(() => policy.assertProjection("app", "users", { x: "$ssn" }), AccessDeniedError);
+      assert.throws(() => policy.assertProjection("app", "users", { x: { $concat: ["$contact.phone"] } }), AccessDeniedError);
+      policy.assertProjection("app", "users", { ssn: 1, name: "$name", same: { $literal: "$ssn" } });
+    });
+
+    it("refuses pipelines that copy redacted fields or the whole document", () => {
+      assert.throws(() => policy.assertPipeline("app", "users", [{ $group: { _id: "$ssn" } }]), AccessDeniedError);
+      assert.throws(() => policy.assertPipeline("app", "users", [{ $replaceWith: "$$ROOT" }]), AccessDeniedError);
+      assert.throws(
+        () => policy.assertPipeline("app", "users", [{ $set: { x: { $getField: "ssn" } } }]),
+        AccessDeniedError
+      );
+      policy.assertPipeline("app", "users", [{ $project: { ssn: "$ssn", name: 1 } }, { $group: { _id: "$name" } }]);
+    });
+
+    it("refuses filters on redacted fields", () => {
+      assert.throws(() => policy.assertFilter("app", "users", { ssn: { $regex: "^123" } }), AccessDeniedError);
+      assert.throws(() => policy.assertFilter("app", "users", { "contact.phone": "555-1234" }), AccessDeniedError);
+      assert.throws(() => policy.assertFilter("app", "users", { contact: { phone: "555-1234" } }), AccessDeniedError);
+      assert.throws(() => policy.assertFilter("app", "users", { $or: [{ name: "a" }, { ssn: "1" }] }), AccessDeniedError);
+      assert.throws(() => policy.assertFilter("app", "users", { $expr: { $eq: ["$ssn", "1"] } }), AccessDeniedError);
+      assert.throws(() => policy.assertFilter("app", "users", { $text: { $search: "1234" } }), AccessDeniedError);
+      policy.assertFilter("app", "users", { name: "Ann", $and: [{ "contact.email": { $exists: true } }] });
+      policy.assertFilter("app", "orders", { ssn: "1" });
+    });
+
+    it("refuses $match stages on redacted fields, in sub-pipelines too", () => {
+      assert.throws(() => policy.assertPipeline("app", "users", [{ $match: { ssn: "1" } }]), AccessDeniedError);
+      assert.throws(
+        () => policy.assertPipeline("app", "users", [{ $facet: { a: [{ $match: { password: { $exists: true } } }] } }]),
+        AccessDeniedError
+      );
+      policy.assertPipeline("app", "users", [{ $match: { name: "Ann" } }]);
+    });
+
+    it("refuses text searches over an index that covers a redacted field", () => {
+      assert.throws(() => policy.assertSearchFields("app", "users", ["bio", "ssn"]), AccessDeniedError);
+      assert.throws(() => policy.assertSearchFields("app", "users", ["$**"]), AccessDeniedError);
+      assert.throws(() => policy.assertSearchFields("app", "users", ["contact.$**"]), AccessDeniedError);
+      policy.assertSearchFields("app", "users", ["bio", "notes.$**"]);
+      policy.assertSearchFields("app", "orders", ["$**"]);
+    });
+
+    it("refuses updates that rename a redacted field or rename onto one", () => {
+      assert.throws(() => policy.assertUpdate("app", "users", { $rename: { ssn: "x" } }), AccessDeniedError);
+      assert.throws(() => policy.assertUpdate("app", "users", { $rename: { contact: "c" } }), AccessDeniedError);
+      assert.throws(() => policy.assertUpdate("app", "users", { $rename: { x: "ssn" } }), AccessDeniedError);
+      assert.throws(() => policy.assertUpdate("app", "users", [{ $set: { x: "$ssn" } }]), AccessDeniedError);
+      policy.assertUpdate("app", "users", { $rename: { nick: "nickname" }, $set: { ssn: "$ssn" } });
+      policy.assertUpdate("app", "orders", { $rename: { ssn: "x" } });
+    });
+
+    it("refuses joins into collections with redaction rules", () => {
+      assert.throws(
+        () => policy.assertPipeline("app", "orders", [{ $lookup: { from: "users", as: "u", localField: "u", foreignField: "_id" } }]),
+        AccessDeniedError
+      );
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AuditLog, AuditRecord, normalizeQuery, normalizeSql } from "../src/auditLog.js";
+
+const HASH = /^hmac-sha256:[0-9a-f]{16}$/;
+
+describe("normalizeQuery", () => {
+  it("keeps values as they are without a hash key", () => {
+    assert.deepEqual(normalizeQuery({ status: "active", qty: { $gt: 5 } }), { status: "active", qty: { $gt: 5 } });
+  });
+
+  it("hashes every literal of a filter, including strings that start with $", () => {
+    const normalized = normalizeQuery({ password: "$ecret", qty: { $in: [1, 2] } }, "key") as any;
+    assert.match(normalized.password, HASH);
+    assert.match(normalized.qty.$in[0], HASH);
+    assert.notEqual(normalized.qty.$in[0], normalized.qty.$in[1]);
+  });
+
+  it("keeps field references in pipeline expressions readable", () => {
+    const [match, group] = normalizeQuery(
+      [{ $match: { code: "$abc", $expr: { $gt: ["$qty", "$min"] } } }, { $group: { _id: "$status", note: { $literal: "$x" } } }],
+      "key"
+    ) as any[];
+    assert.match(match.$match.code, HASH);
+    assert.deepEqual(match.$match.$expr.$gt, ["$qty", "$min"]);
+    assert.equal(group.$group._id, "$status");
+    assert.match(group.$group.note.$literal, HASH);
+  });
+
+  it("gives different hashes under different keys", () => {
+    assert.notDeepEqual(normalizeQuery({ phone: "555-1234" }, "a"), normalizeQuery({ phone: "555-1234" }, "b"));
+    assert.deepEqual(normalizeQuery({ phone: "555-1234" }, "a"), normalizeQuery({ phone: "555-1234" }, "a"));
+  });
+});
+
+describe("normalizeSql", () => {
+  it("hashes string and number literals but not identifiers", () => {
+    const sql = normalizeSql("SELECT a1 FROM t WHERE name = 'O''Brien' AND qty > 10", "key");
+    assert.match(sql, /^SELECT a1 FROM t WHERE name = 'hmac-sha256:[0-9a-f]{16}' AND qty > hmac-sha256:[0-9a-f]{16}$/);
+  });
+});
+
+describe("AuditLog", () => {
+  const record = (sessionId: string, tool: string): AuditRecord => ({
+    timestamp: new Date().toISOString(),
+    sessionId,
+    tool,
+    durationMs: 1,
+  });
+
+  it("keeps a history per session until the session ends", () => {
+    const log = new AuditLog({ maxBytes: 1024, maxFiles: 1, hashLiterals: false, sessionHistorySize: 2 });
+    log.record(record("s1", "a"));
+    log.record(record("s1", "b"));
+    log.record(record("s1", "c"));
+    log.record(record("s2", "d"));
+    assert.deepEqual(log.sessionHistory("s1", 10).map((entry) => entry.tool), ["c", "b"]);
+
+    log.endSession("s1");
+    assert.deepEqual(log.sessionHistory("s1", 10), []);
+    assert.equal(log.sessionHistory("s2", 10).length, 1);
+  });
+
+  it("hashes literals with its key only when configured to", () => {
+    const plain = new AuditLog({ maxBytes: 1024, maxFiles: 1, hashLiterals: false, sessionHistorySize: 1 });
+    const hashed = new AuditLog({ maxBytes: 1024, maxFiles: 1, hashLiterals: true, hashKey: "key", sessionHistorySize: 1 });
+    assert.deepEqual(plain.normalizeQuery({ a: "x" }), { a: "x" });
+    assert.deepEqual(hashed.normalizeQuery({ a: "x" }), normalizeQuery({ a: "x" }, "key"));
+  });
+});
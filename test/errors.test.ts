@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MongoServerError } from "mongodb";
+import { AccessDeniedError } from "../src/accessPolicy.js";
+import { parseEJSON } from "../src/ejson.js";
+import { classifyError, didYouMean, similarNames, UnknownCollectionError } from "../src/errors.js";
+import { GuardError } from "../src/executionGuards.js";
+import { QuerySafetyError } from "../src/querySafety.js";
+import { SqlSyntaxError } from "../src/sqlTranslator.js";
+
+function serverError(code: number, errmsg: string): MongoServerError {
+  return new MongoServerError({ ok: 0, code, errmsg });
+}
+
+describe("classifyError", () => {
+  it("maps the server's own errors to stable codes", () => {
+    assert.equal(classifyError(new AccessDeniedError("no", "db.coll")).code, "ACCESS_DENIED");
+    assert.equal(classifyError(new QuerySafetyError("no", "$where", "filter.$where")).code, "QUERY_REJECTED");
+    assert.equal(classifyError(new SqlSyntaxError("bad", 3)).code, "INVALID_SQL");
+    assert.equal(classifyError(new UnknownCollectionError("db", "ordrs", ["orders"])).hint, "Did you mean `orders`?");
+  });
+
+  it("reports the limits of a tripped guard", () => {
+    const classified = classifyError(new GuardError("too many", "maxDocuments", 100, 500));
+    assert.equal(classified.code, "GUARD_TRIPPED");
+    assert.deepEqual(classified.details, { guard: "maxDocuments", limit: 100, actual: 500 });
+  });
+
+  it("gives JSON errors their position and a quoting hint", () => {
+    let error: unknown;
+    try {
+      parseEJSON("{'a': 1}", "filter");
+    } catch (caught) {
+      error = caught;
+    }
+    const classified = classifyError(error);
+    assert.equal(classified.code, "INVALID_JSON");
+    assert.equal(classified.details.argument, "filter");
+    assert.match(classified.hint ?? "", /double quotes/);
+  });
+
+  it("recognizes server error codes", () => {
+    assert.equal(classifyError(serverError(50, "operation exceeded time limit")).code, "TIMEOUT");
+    assert.equal(classifyError(serverError(13, "not authorized")).code, "PERMISSION_DENIED");
+    assert.equal(classifyError(serverError(18, "Authentication failed")).code, "AUTHENTICATION_FAILED");
+  });
+
+  it("suggests the operator a misspelled one was meant to be", () => {
+    const classified = classifyError(serverError(40324, "Unrecognized pipeline stage name: '$mach'"));
+    assert.equal(classified.code, "UNKNOWN_OPERATOR");
+    assert.equal(classified.details.operator, "$mach");
+    assert.match(classified.hint ?? "", /`\$match`/);
+  });
+
+  it("takes the code of a wrapped cause and falls back to EXECUTION_FAILED", () => {
+    const wrapped = new Error("Could not connect", { cause: serverError(18, "Authentication failed") });
+    assert.equal(classifyError(wrapped).code, "AUTHENTICATION_FAILED");
+    assert.equal(classifyError(new Error("boom")).code, "EXECUTION_FAILED");
+  });
+});
+
+describe("similarNames", () => {
+  it("suggests close names, nearest first", () => {
+    assert.deepEqual(similarNames("$grup", ["$group", "$sort", "$gt"]), ["$group"]);
+    assert.equal(didYouMean(["a", "b", "c"]), "Did you mean `a`, `b` or `c`?");
+    assert.equal(didYouMean([]), undefined);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ExecutionGuard, GuardError } from "../src/executionGuards.js";
+
+describe("ExecutionGuard", () => {
+  const guard = new ExecutionGuard({
+    defaultMaxTimeMS: 1000,
+    maxTimeMS: 5000,
+    maxLimit: 100,
+    maxSkip: 1000,
+    maxPipelineStages: 5,
+    autoLimit: 50,
+    allowDiskUse: false,
+    maxDistinctValues: 10,
+  });
+
+  const trips = (guardName: string) => (error: unknown) => error instanceof GuardError && error.guard === guardName;
+
+  it("bounds maxTimeMS, limit and skip", () => {
+    assert.equal(guard.maxTimeMS(), 1000);
+    assert.throws(() => guard.maxTimeMS(6000), trips("maxTimeMS"));
+    assert.equal(guard.limit(undefined, 20), 20);
+    assert.throws(() => guard.limit(101, 20), trips("maxLimit"));
+    assert.throws(() => guard.skip(1001), trips("maxSkip"));
+  });
+
+  it("ends pipelines with the guard $limit unless they already end within it", () => {
+    assert.deepEqual(guard.pipeline([{ $match: {} }]), [{ $match: {} }, { $limit: 50 }]);
+    assert.deepEqual(guard.pipeline([{ $limit: 10 }]), [{ $limit: 10 }]);
+    assert.deepEqual(guard.pipeline([{ $limit: 10 }, { $unwind: "$a" }]), [{ $limit: 10 }, { $unwind: "$a" }, { $limit: 50 }]);
+  });
+
+  it("counts the stages of sub-pipelines", () => {
+    assert.throws(
+      () => guard.pipeline([{ $facet: { a: [{ $match: {} }, { $match: {} }], b: [{ $match: {} }, { $match: {} }, { $match: {} }] } }]),
+      trips("maxPipelineStages")
+    );
+  });
+
+  it("checks $skip in $facet, $lookup and $unionWith sub-pipelines", () => {
+    assert.throws(() => guard.pipeline([{ $skip: 5000 }]), trips("maxSkip"));
+    assert.throws(() => guard.pipeline([{ $facet: { page: [{ $skip: 5000 }] } }]), trips("maxSkip"));
+    assert.throws(
+      () => guard.pipeline([{ $lookup: { from: "b", as: "b", pipeline: [{ $skip: 5000 }] } }]),
+      trips("maxSkip")
+    );
+    assert.throws(
+      () => guard.pipeline([{ $unionWith: { coll: "b", pipeline: [{ $facet: { x: [{ $skip: 5000 }] } }] } }]),
+      trips("maxSkip")
+    );
+    guard.pipeline([{ $facet: { page: [{ $skip: 500 }] } }]);
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { csvCell, Exporter } from "../src/exporter.js";
+
+describe("csvCell", () => {
+  it("quotes cells with separators, quotes and line breaks", () => {
+    assert.equal(csvCell('say "hi", then\nleave'), '"say ""hi"", then\nleave"');
+    assert.equal(csvCell(null), "");
+    assert.equal(csvCell(true), "true");
+  });
+
+  it("keeps spreadsheets from reading cells as formulas", () => {
+    assert.equal(csvCell("=HYPERLINK(\"http://x\")"), "\"'=HYPERLINK(\"\"http://x\"\")\"");
+    assert.equal(csvCell("+1 555 0100"), "'+1 555 0100");
+    assert.equal(csvCell("-2+3+cmd|' /C calc'!A0"), "'-2+3+cmd|' /C calc'!A0");
+    assert.equal(csvCell("@SUM(A1)"), "'@SUM(A1)");
+    assert.equal(csvCell("\tx"), "'\tx");
+  });
+
+  it("leaves signed numbers alone", () => {
+    assert.equal(csvCell(-5), "-5");
+    assert.equal(csvCell("-1.5e3"), "-1.5e3");
+    assert.equal(csvCell("+42"), "+42");
+  });
+});
+
+describe("Exporter.read", () => {
+  let directory: string;
+  let exporter: Exporter;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "export-test-"));
+    exporter = new Exporter({ directory, maxRows: 10, maxBytes: 1024, readChunkBytes: 16 });
+    await writeFile(join(directory, "rows.ndjson"), '{"a":1}\n{"a":22}\n{"a":333}\n');
+    await writeFile(join(directory, "long.ndjson"), `"${"é".repeat(20)}"\n`);
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("pages through a file at line breaks", async () => {
+    const first = await exporter.read(exporter.uri("rows.ndjson"));
+    assert.equal(first.text, '{"a":1}\n');
+    assert.equal(first.mimeType, "application/x-ndjson");
+    assert.equal(first.nextUri, "mongodb-export://rows.ndjson?offset=8");
+
+    const second = await exporter.read(first.nextUri!);
+    assert.equal(second.text, '{"a":22}\n');
+    const third = await exporter.read(second.nextUri!);
+    assert.equal(third.text, '{"a":333}\n');
+    assert.equal(third.nextUri, undefined);
+  });
+
+  it("splits a line longer than a page between characters", async () => {
+    let uri: string | undefined = exporter.uri("long.ndjson");
+    let text = "";
+    while (uri) {
+      const page = await exporter.read(uri);
+      assert.ok(!page.text.includes("�"));
+      text += page.text;
+      uri = page.nextUri;
+    }
+    assert.equal(text, `"${"é".repeat(20)}"\n`);
+  });
+
+  it("refuses names outside the export directory and bad offsets", async () => {
+    await assert.rejects(exporter.read("mongodb-export://..%2Fsecret.csv"), /Unknown export resource/);
+    await assert.rejects(exporter.read("mongodb-export://rows.ndjson?offset=-1"), /Invalid offset/);
+  });
+});
@@ -0,0 +1,70 @@
+// Needs a replica set (change streams); set MONGODB_TEST_URI, e.g. mongodb://localhost:27017/?replicaSet=rs0
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MongoClient } from "mongodb";
+
+const TEST_URI = process.env.MONGODB_TEST_URI;
+const DATABASE = `mcp_test_${process.pid}`;
+
+describe("resource subscriptions", { skip: TEST_URI ? false : "set MONGODB_TEST_URI to a replica set" }, () => {
+  let mongo: MongoClient;
+  let client: Client;
+
+  before(async () => {
+    mongo = await new MongoClient(TEST_URI!).connect();
+    await mongo.db(DATABASE).createCollection("events");
+
+    client = new Client({ name: "subscription-test", version: "1.0.0" });
+    await client.connect(
+      new StdioClientTransport({
+        command: process.execPath,
+        args: [fileURLToPath(new URL("../../src/index.js", import.meta.url))],
+        env: {
+          ...(process.env as Record<string, string>),
+          MONGODB_URI: TEST_URI!,
+          MONGODB_SUBSCRIPTION_DEBOUNCE_MS: "100",
+          // Long enough that only the change stream can deliver the update within the test
+          MONGODB_SUBSCRIPTION_POLL_MS: "600000",
+        },
+        stderr: "ignore",
+      })
+    );
+  });
+
+  after(async () => {
+    await client?.close();
+    await mongo?.db(DATABASE).dropDatabase();
+    await mongo?.close();
+  });
+
+  it("notifies subscribers of inserts through the change stream", async () => {
+    const uri = `mongodb://${DATABASE}/events`;
+    const updated = new Promise<string>((resolve) =>
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => resolve(notification.params.uri))
+    );
+    await client.subscribeResource({ uri });
+
+    // The stream opens asynchronously after the subscribe call returns, so keep writing until it reports one
+    const events = mongo.db(DATABASE).collection("events");
+    let timer: NodeJS.Timeout | undefined;
+    const insert = () => {
+      events.insertOne({ at: new Date() }).catch(() => undefined);
+      timer = setTimeout(insert, 500);
+    };
+    insert();
+    const timeout = new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error("no resources/updated notification within 20s")), 20_000).unref()
+    );
+
+    try {
+      assert.equal(await Promise.race([updated, timeout]), uri);
+    } finally {
+      clearTimeout(timer);
+      await client.unsubscribeResource({ uri });
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { QuerySafetyError, QuerySafetyValidator } from "../src/querySafety.js";
+
+describe("QuerySafetyValidator", () => {
+  const validator = new QuerySafetyValidator();
+
+  it("accepts ordinary filters and pipelines", () => {
+    validator.validateFilter({ status: "active", qty: { $gt: 5 }, $or: [{ a: 1 }, { b: { $in: [1, 2] } }] });
+    validator.validatePipeline([{ $match: { a: 1 } }, { $group: { _id: "$a", n: { $sum: 1 } } }, { $limit: 10 }]);
+  });
+
+  it("rejects server-side JavaScript anywhere in a filter", () => {
+    assert.throws(
+      () => validator.validateFilter({ $and: [{ a: 1 }, { $where: "this.a > 1" }] }),
+      (error: unknown) =>
+        error instanceof QuerySafetyError && error.operator === "$where" && error.path === "filter.$and[1].$where"
+    );
+  });
+
+  it("rejects write stages, including inside $facet and $lookup sub-pipelines", () => {
+    assert.throws(() => validator.validatePipeline([{ $out: "copy" }]), QuerySafetyError);
+    assert.throws(() => validator.validatePipeline([{ $facet: { a: [{ $merge: { into: "x" } }] } }]), QuerySafetyError);
+    assert.throws(
+      () => validator.validatePipeline([{ $lookup: { from: "b", as: "b", pipeline: [{ $out: "copy" }] } }]),
+      QuerySafetyError
+    );
+  });
+
+  it("rejects stages that are not single-key objects", () => {
+    assert.throws(() => validator.validatePipeline([{ $match: {}, $limit: 1 }]), /exactly one stage operator/);
+    assert.throws(() => validator.validatePipeline({ $match: {} }), /must be an array of stages/);
+  });
+
+  it("applies the deny and allow lists on top of the defaults", () => {
+    const custom = new QuerySafetyValidator({ deny: ["$regex"], allow: ["$where"] });
+    assert.throws(() => custom.validateFilter({ name: { $regex: "^a" } }), QuerySafetyError);
+    custom.validateFilter({ $where: "true" });
+    assert.ok(!custom.deniedOperators.includes("$where"));
+  });
+
+  it("accepts operator updates and update-stage pipelines only", () => {
+    validator.validateUpdate({ $set: { a: 1 }, $inc: { n: 1 } });
+    validator.validateUpdate([{ $set: { a: 1 } }, { $unset: "b" }]);
+    assert.throws(() => validator.validateUpdate({ a: 1 }), /update operators/);
+    assert.throws(() => validator.validateUpdate([{ $lookup: { from: "b", as: "b" } }]), QuerySafetyError);
+    assert.throws(() => validator.validateUpdate([{ $set: { a: { $function: {} } } }]), QuerySafetyError);
+  });
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { decodeContinuation, encodeContinuation, FindContinuation } from "../src/resultBudget.js";
+
+describe("continuation tokens", () => {
+  const target = { connection: "main", database: "shop", collection: "orders" };
+  const state: FindContinuation = {
+    kind: "find",
+    ...target,
+    filter: { customer: new ObjectId("64b7f0c2a1b2c3d4e5f60718"), total: { $gt: 10 } },
+    sort: { total: -1 },
+    offset: 20,
+    remaining: 30,
+  };
+
+  it("round-trips the query state with its BSON types", () => {
+    const decoded = decodeContinuation(encodeContinuation(state), "find", target);
+    assert.deepEqual(decoded, state);
+    assert.ok(decoded.filter.customer instanceof ObjectId);
+  });
+
+  it("rejects tokens whose payload was edited", () => {
+    const [payload, signature] = encodeContinuation(state).split(".");
+    const edited = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    edited.offset = 0;
+    edited.remaining = 1_000_000;
+    const forged = `${Buffer.from(JSON.stringify(edited)).toString("base64url")}.${signature}`;
+    assert.throws(() => decodeContinuation(forged, "find", target), /altered or issued before the server restarted/);
+  });
+
+  it("rejects unsigned and malformed tokens", () => {
+    const [payload] = encodeContinuation(state).split(".");
+    assert.throws(() => decodeContinuation(payload, "find", target), /Invalid cursor token/);
+    assert.throws(() => decodeContinuation("not a token", "find", target), /Invalid cursor token/);
+  });
+
+  it("rejects a token issued for another connection, database or collection", () => {
+    const token = encodeContinuation(state);
+    assert.throws(() => decodeContinuation(token, "find", { ...target, connection: "replica" }), /connection "main"/);
+    assert.throws(() => decodeContinuation(token, "find", { ...target, database: "other" }), /database "shop"/);
+    assert.throws(() => decodeContinuation(token, "find", { ...target, collection: "users" }), /collection "orders"/);
+    const aggregate = encodeContinuation({ kind: "aggregate", ...target, pipeline: [{ $match: {} }], offset: 10 });
+    assert.throws(() => decodeContinuation(aggregate, "aggregate", { ...target, database: "other" }), /database "shop"/);
+  });
+
+  it("rejects a token from the other kind of call", () => {
+    assert.throws(() => decodeContinuation(encodeContinuation(state), "aggregate", target), /belongs to a find call/);
+  });
+});
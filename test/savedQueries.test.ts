@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BSON } from "mongodb";
+import { bindParameters, coerceParameter, SavedQuery } from "../src/savedQueries.js";
+
+describe("coerceParameter", () => {
+  it("converts arguments to their BSON types", () => {
+    assert.ok(coerceParameter("n", { type: "int" }, "42") instanceof BSON.Int32);
+    assert.equal(String(coerceParameter("n", { type: "long" }, "9007199254740993")), "9007199254740993");
+    assert.ok(coerceParameter("d", { type: "decimal" }, "1.10") instanceof BSON.Decimal128);
+    assert.equal(coerceParameter("b", { type: "bool" }, "false"), false);
+    assert.ok(coerceParameter("id", { type: "objectId" }, "64b7f0c2a1b2c3d4e5f60718") instanceof BSON.ObjectId);
+  });
+
+  it("resolves relative dates against now", () => {
+    const date = coerceParameter("since", { type: "date" }, "-24h") as Date;
+    assert.ok(Math.abs(Date.now() - 86_400_000 - date.getTime()) < 5_000);
+  });
+
+  it("rejects values that do not fit the type or the enum", () => {
+    assert.throws(() => coerceParameter("n", { type: "int" }, "1.5"), /not a valid int/);
+    assert.throws(() => coerceParameter("id", { type: "objectId" }, "abc"), /not a valid objectId/);
+    assert.throws(() => coerceParameter("s", { type: "string" }, { $ne: null }), /not a valid string/);
+    assert.throws(() => coerceParameter("s", { type: "string", enum: ["a", "b"] }, "c"), /must be one of "a", "b"/);
+  });
+});
+
+describe("bindParameters", () => {
+  const query: SavedQuery = {
+    name: "failed_orders",
+    description: "Failed orders",
+    collection: "orders",
+    find: { filter: { status: "{{status}}", qty: { $gte: "{{min}}" }, note: "literal {{text}}" } },
+    parameters: { status: { type: "string" }, min: { type: "int", default: 1 } },
+  };
+
+  it("places typed values and defaults into the template", () => {
+    const bound = bindParameters(query, query.find!, { status: "failed" });
+    assert.equal(bound.filter!.status, "failed");
+    assert.ok(bound.filter!.qty.$gte instanceof BSON.Int32);
+    assert.equal(bound.filter!.qty.$gte.value, 1);
+    assert.equal(bound.filter!.note, "literal {{text}}");
+  });
+
+  it("does not let an argument inject operators", () => {
+    assert.throws(() => bindParameters(query, query.find!, { status: { $ne: "x" } }), /not a valid string/);
+  });
+
+  it("requires parameters without a default", () => {
+    assert.throws(() => bindParameters(query, query.find!, {}), /Missing required parameter "status"/);
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { likeToRegex, SqlSyntaxError, translateSql } from "../src/sqlTranslator.js";
+
+describe("translateSql", () => {
+  it("translates a simple SELECT into a find", () => {
+    const translation = translateSql(
+      "SELECT name, age FROM users WHERE age >= 18 AND status = 'active' ORDER BY age DESC LIMIT 10 OFFSET 5"
+    );
+    assert.equal(translation.collection, "users");
+    assert.equal(translation.kind, "find");
+    assert.deepEqual(translation.find, {
+      filter: { age: { $gte: 18 }, status: "active" },
+      projection: { name: 1, age: 1, _id: 0 },
+      sort: { age: -1 },
+      skip: 5,
+      limit: 10,
+    });
+  });
+
+  it("translates IN, LIKE, BETWEEN and IS NULL", () => {
+    const { find } = translateSql(
+      "SELECT * FROM t WHERE a IN (1, 2) AND b LIKE 'ab%' AND c BETWEEN 1 AND 5 AND d IS NOT NULL"
+    );
+    assert.deepEqual(find?.filter, {
+      a: { $in: [1, 2] },
+      b: { $regex: "^ab" },
+      c: { $gte: 1, $lte: 5 },
+      d: { $ne: null },
+    });
+  });
+
+  it("flips comparisons written with the literal first", () => {
+    assert.deepEqual(translateSql("SELECT * FROM t WHERE 5 < qty").find?.filter, { qty: { $gt: 5 } });
+  });
+
+  it("keeps null and missing values out of != and NOT, as SQL does", () => {
+    const filter = (where: string) => translateSql(`SELECT * FROM t WHERE ${where}`).find?.filter;
+    assert.deepEqual(filter("a != 1"), { a: { $nin: [1, null] } });
+    assert.deepEqual(filter("a <> 'x'"), { a: { $nin: ["x", null] } });
+    assert.deepEqual(filter("NOT a = 1"), { a: { $nin: [1, null] } });
+    assert.deepEqual(filter("NOT (a > 1 OR b <= 2)"), { a: { $lte: 1 }, b: { $gt: 2 } });
+    assert.deepEqual(filter("a NOT IN (1, 2)"), { a: { $nin: [1, 2, null] } });
+    assert.deepEqual(filter("NOT a LIKE 'x%'"), { a: { $not: { $regex: "^x" }, $ne: null } });
+    assert.deepEqual(filter("a NOT BETWEEN 1 AND 2"), { a: { $not: { $gte: 1, $lte: 2 }, $ne: null } });
+    assert.deepEqual(filter("NOT a IS NULL"), { a: { $ne: null } });
+    assert.deepEqual(filter("a != b"), { a: { $ne: null }, b: { $ne: null }, $expr: { $ne: ["$a", "$b"] } });
+  });
+
+  it("rejects LIMIT 0, which MongoDB would not accept", () => {
+    assert.throws(() => translateSql("SELECT * FROM t LIMIT 0"), /LIMIT needs a positive integer \(at position 22\)/);
+    assert.throws(() => translateSql("SELECT * FROM t LIMIT 5, 0"), /LIMIT needs a positive integer/);
+    assert.deepEqual(translateSql("SELECT * FROM t LIMIT 0, 5").find, { filter: {}, limit: 5 });
+  });
+
+  it("groups with aggregate functions and HAVING", () => {
+    const { kind, pipeline } = translateSql(
+      "SELECT status, COUNT(*) AS n FROM orders GROUP BY status HAVING n > 1 ORDER BY n DESC"
+    );
+    assert.equal(kind, "aggregate");
+    assert.deepEqual(pipeline, [
+      { $group: { _id: { status: "$status" }, n: { $sum: 1 } } },
+      { $match: { n: { $gt: 1 } } },
+      { $sort: { n: -1 } },
+      { $project: { _id: 0, status: "$_id.status", n: "$n" } },
+    ]);
+  });
+
+  it("joins with $lookup and $unwind, filtering the FROM collection first", () => {
+    const { kind, pipeline } = translateSql(
+      "SELECT o.total, c.name FROM orders o LEFT JOIN customers c ON o.customerId = c._id WHERE o.total > 10"
+    );
+    assert.equal(kind, "aggregate");
+    assert.deepEqual(pipeline.slice(0, 3), [
+      { $match: { total: { $gt: 10 } } },
+      { $lookup: { from: "customers", localField: "customerId", foreignField: "_id", as: "c" } },
+      { $unwind: { path: "$c", preserveNullAndEmptyArrays: true } },
+    ]);
+  });
+
+  it("rejects unsupported statements with a position", () => {
+    assert.throws(() => translateSql("DELETE FROM users"), SqlSyntaxError);
+    assert.throws(
+      () => translateSql("SELECT name FROM users GROUP BY status"),
+      (error: unknown) => error instanceof SqlSyntaxError && /must appear in GROUP BY/.test(error.message)
+    );
+  });
+});
+
+describe("likeToRegex", () => {
+  it("anchors the pattern and escapes regex characters", () => {
+    assert.equal(likeToRegex("a_c"), "^a.c$");
+    assert.equal(likeToRegex("%.com"), "\\.com$");
+    assert.equal(likeToRegex("%x%"), "x");
+  });
+});
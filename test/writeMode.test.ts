@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffDocuments, updatePreviewPipeline } from "../src/writeMode.js";
+
+describe("updatePreviewPipeline", () => {
+  it("uses update pipelines as they are", () => {
+    const pipeline = [{ $set: { a: 1 } }];
+    assert.equal(updatePreviewPipeline(pipeline), pipeline);
+  });
+
+  it("translates operator updates into aggregation stages", () => {
+    assert.deepEqual(updatePreviewPipeline({ $set: { a: 1 }, $inc: { n: 2 }, $unset: { old: "" } }), [
+      { $set: { a: { $literal: 1 } } },
+      { $set: { n: { $add: [{ $ifNull: ["$n", 0] }, { $literal: 2 }] } } },
+      { $unset: "old" },
+    ]);
+    assert.deepEqual(updatePreviewPipeline({ $rename: { a: "b" } }), [{ $set: { b: "$a" } }, { $unset: "a" }]);
+  });
+
+  it("keeps $set values literal so they are not read as field paths", () => {
+    assert.deepEqual(updatePreviewPipeline({ $set: { note: "$price" } }), [{ $set: { note: { $literal: "$price" } } }]);
+  });
+
+  it("gives up on positional paths and operators without an equivalent", () => {
+    assert.equal(updatePreviewPipeline({ $set: { "items.$.qty": 1 } }), undefined);
+    assert.equal(updatePreviewPipeline({ $set: { "items.$[].qty": 1 } }), undefined);
+    assert.equal(updatePreviewPipeline({ $pull: { tags: { $in: ["a"] } } }), undefined);
+    assert.equal(updatePreviewPipeline({ $bit: { flags: { and: 1 } } }), undefined);
+  });
+});
+
+describe("diffDocuments", () => {
+  it("lists changed, added and removed leaf paths", () => {
+    assert.deepEqual(
+      diffDocuments({ a: 1, nested: { b: 2, c: 3 }, gone: true }, { a: 1, nested: { b: 5, c: 3 }, added: [1] }),
+      [
+        { path: "nested.b", before: 2, after: 5 },
+        { path: "gone", before: true },
+        { path: "added", after: [1] },
+      ]
+    );
+  });
+
+  it("treats a missing document as empty", () => {
+    assert.deepEqual(diffDocuments(undefined, { a: 1 }), [{ path: "a", after: 1 }]);
+    assert.deepEqual(diffDocuments({ a: 1 }, undefined), [{ path: "a", before: 1 }]);
+  });
+
+  it("compares arrays as whole values", () => {
+    assert.deepEqual(diffDocuments({ tags: ["a", "b"] }, { tags: ["a", "b"] }), []);
+    assert.deepEqual(diffDocuments({ tags: ["a"] }, { tags: ["a", "b"] }), [{ path: "tags", before: ["a"], after: ["a", "b"] }]);
+  });
+});